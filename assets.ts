@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import {
+  deleteRecord,
+  getRecordsByIndex,
+  putRecord,
+  STORE_ASSETS
+} from './storage'
+
+/** Folder sketches load assets from, e.g. loadImage('assets/cat.png'). */
+export const ASSETS_DIR = 'assets'
+
+export type AssetKind = 'image' | 'font' | 'sound' | 'video' | 'data' | 'other'
+
+/** A file added to a session for its sketches to load. */
+export interface Asset {
+  id: string
+  sessionId: string
+  name: string // Unique within the session
+  type: string // MIME type
+  size: number
+  data: Blob
+  createdAt: number
+}
+
+/** What the model is told about an asset. */
+export type AssetInfo = Pick<Asset, 'name' | 'type' | 'size'>
+
+const KIND_EXTENSIONS: Record<string, AssetKind> = {
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  svg: 'image',
+  ttf: 'font',
+  otf: 'font',
+  woff: 'font',
+  woff2: 'font',
+  mp3: 'sound',
+  wav: 'sound',
+  ogg: 'sound',
+  m4a: 'sound',
+  mp4: 'video',
+  webm: 'video',
+  json: 'data',
+  csv: 'data',
+  tsv: 'data',
+  txt: 'data',
+  xml: 'data'
+}
+
+/** p5 function that loads each kind of asset. */
+const LOADERS: Record<AssetKind, string> = {
+  image: 'loadImage',
+  font: 'loadFont',
+  sound: 'loadSound',
+  video: 'createVideo',
+  data: 'loadJSON / loadStrings / loadTable',
+  other: 'loadBytes'
+}
+
+export function assetKind (name: string): AssetKind {
+  return KIND_EXTENSIONS[name.split('.').pop()!.toLowerCase()] ?? 'other'
+}
+
+export function assetPath (name: string) {
+  return `${ASSETS_DIR}/${name}`
+}
+
+export function formatSize (bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/** A file name that doesn't clash with `taken`, e.g. "cat (2).png". */
+export function uniqueAssetName (name: string, taken: string[]) {
+  const clean = name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'asset'
+  if (!taken.includes(clean)) return clean
+  const dot = clean.lastIndexOf('.')
+  const base = dot > 0 ? clean.slice(0, dot) : clean
+  const ext = dot > 0 ? clean.slice(dot) : ''
+  let n = 2
+  while (taken.includes(`${base} (${n})${ext}`)) n++
+  return `${base} (${n})${ext}`
+}
+
+export function listAssets (sessionId: string): Promise<Asset[]> {
+  return getRecordsByIndex<Asset>(STORE_ASSETS, 'sessionId', sessionId)
+}
+
+export function saveAsset (asset: Asset) {
+  return putRecord(STORE_ASSETS, asset)
+}
+
+export function deleteAsset (id: string) {
+  return deleteRecord(STORE_ASSETS, id)
+}
+
+export async function deleteSessionAssets (sessionId: string) {
+  const assets = await listAssets(sessionId)
+  await Promise.all(assets.map(asset => deleteAsset(asset.id)))
+}
+
+/** Give a session its own copy of another session's assets. */
+export async function copySessionAssets (
+  fromSessionId: string,
+  toSessionId: string,
+  newId: () => string
+) {
+  const assets = await listAssets(fromSessionId)
+  await Promise.all(
+    assets.map(asset => saveAsset({ ...asset, id: newId(), sessionId: toSessionId }))
+  )
+}
+
+/** Asset list for the model, so it can use them in sketches. */
+export function assetPrompt (assets: AssetInfo[]) {
+  const lines = assets.map(
+    asset =>
+      `- ${assetPath(asset.name)} (${assetKind(asset.name)}, ${formatSize(asset.size)}; load with ${LOADERS[assetKind(asset.name)]})`
+  )
+  return (
+    'These asset files are available to the sketch. Load them by path, e.g. ' +
+    `loadImage('${ASSETS_DIR}/name.png'), in preload() with p5.js 1.x or awaited in setup() with 2.x:\n` +
+    lines.join('\n')
+  )
+}
+
+/**
+ * Script for the preview that serves assets from object URLs. The preview is
+ * a srcdoc document, so paths like "assets/cat.png" would otherwise resolve
+ * against the playground's own URL. Requests made through fetch,
+ * XMLHttpRequest and image or media elements are redirected.
+ */
+export function assetResolverScript (urls: Record<string, string>) {
+  return `(() => {
+  const assets = ${JSON.stringify(urls).replace(/</g, '\\u003c')};
+  const base = document.baseURI.replace(/[^/]*$/, '');
+  const resolve = (url) => {
+    if (typeof url !== 'string') return url;
+    const path = url.startsWith(base) ? url.slice(base.length) : url;
+    const name = path.replace(/^\\.?\\//, '').replace(/^${ASSETS_DIR}\\//, '').replace(/[?#].*$/, '');
+    try {
+      // Imported sketches may keep assets in other folders
+      const decoded = decodeURIComponent(name);
+      const relative = !/^[a-z][a-z\\d+.-]*:/i.test(decoded);
+      return assets[decoded] || (relative && assets[decoded.split('/').pop()]) || url;
+    } catch (e) {
+      return url;
+    }
+  };
+  const originalFetch = window.fetch;
+  window.fetch = (input, init) => {
+    if (input instanceof Request) {
+      const url = resolve(input.url);
+      return originalFetch(url === input.url ? input : new Request(url, input), init);
+    }
+    return originalFetch(resolve(String(input)), init);
+  };
+  const open = XMLHttpRequest.prototype.open;
+  XMLHttpRequest.prototype.open = function (method, url, ...rest) {
+    return open.call(this, method, resolve(String(url)), ...rest);
+  };
+  for (const proto of [HTMLImageElement.prototype, HTMLMediaElement.prototype, HTMLSourceElement.prototype]) {
+    const src = Object.getOwnPropertyDescriptor(proto, 'src');
+    Object.defineProperty(proto, 'src', {
+      ...src,
+      set (value) { src.set.call(this, resolve(value)); }
+    });
+  }
+})();`
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { escapeHtml } from './html'
+
+/** How many fixes are requested for one error before giving up. */
+export const AUTO_FIX_MAX_ATTEMPTS = 3
+
+/** How long a fixed sketch has to run without errors to count as repaired. */
+export const AUTO_FIX_SETTLE_MS = 3000
+
+const AUTO_FIX_KEY = 'p5js-playground.autoFix'
+
+export type AutoFixOutcome =
+  | 'fixed' // The last fix ran without errors
+  | 'repeated' // A fix reproduced the error it was meant to fix
+  | 'exhausted' // Out of attempts
+  | 'no-fix' // The model returned no code
+  | 'invalid' // The fix failed validation and was not run
+  | 'cancelled' // The user took over
+
+/** One request to the model to fix an error. */
+export interface AutoFixAttempt {
+  error: string
+  versionId?: string // Version produced by the fix, if any
+}
+
+/** A series of automatic fix attempts started by one runtime error. */
+export interface AutoFixRun {
+  attempts: AutoFixAttempt[]
+  outcome?: AutoFixOutcome
+}
+
+export function getAutoFixEnabled (): boolean {
+  return localStorage.getItem(AUTO_FIX_KEY) === 'true'
+}
+
+export function setAutoFixEnabled (enabled: boolean) {
+  localStorage.setItem(AUTO_FIX_KEY, String(enabled))
+}
+
+/** Whether the run should stop instead of trying to fix `error`. */
+export function stopReason (run: AutoFixRun, error: string): AutoFixOutcome | null {
+  const last = run.attempts[run.attempts.length - 1]
+  if (last && last.error === error) return 'repeated'
+  if (run.attempts.length >= AUTO_FIX_MAX_ATTEMPTS) return 'exhausted'
+  return null
+}
+
+const OUTCOME_TEXT: Record<AutoFixOutcome, string> = {
+  fixed: 'The sketch now runs without errors.',
+  repeated: 'Stopped: the last fix produced the same error again.',
+  exhausted: `Stopped: no working fix after ${AUTO_FIX_MAX_ATTEMPTS} attempts.`,
+  'no-fix': 'Stopped: the last response did not contain any code.',
+  invalid: 'Stopped: the last fix did not pass validation.',
+  cancelled: 'Stopped.'
+}
+
+/** HTML summary of a finished run, listing each attempt. */
+export function autoFixSummary (run: AutoFixRun): string {
+  const attempts = run.attempts
+    .map(
+      (attempt, i) =>
+        `<li>Attempt ${i + 1}: ${escapeHtml(attempt.error)}${
+          attempt.versionId ? '' : ' <em>(no code)</em>'
+        }</li>`
+    )
+    .join('')
+  const count = `${run.attempts.length} attempt${run.attempts.length === 1 ? '' : 's'}`
+  return `<p><strong>Auto-fix</strong> (${count}). ${OUTCOME_TEXT[run.outcome ?? 'cancelled']}</p><ol>${attempts}</ol>`
+}
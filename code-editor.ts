@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { indentWithTab } from '@codemirror/commands'
+import { javascript } from '@codemirror/lang-javascript'
+import {
+  Compartment,
+  EditorState,
+  StateEffect,
+  StateField,
+  Transaction
+} from '@codemirror/state'
+import { oneDark } from '@codemirror/theme-one-dark'
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  keymap,
+  WidgetType
+} from '@codemirror/view'
+import { basicSetup } from 'codemirror'
+import { LitElement } from 'lit'
+import { customElement, property } from 'lit/decorators.js'
+import { LibrarySelection } from './libraries'
+import { p5Libraries, p5Support } from './p5-editor'
+import { fileLanguage } from './project'
+
+const setErrorLine = StateEffect.define<number | null>()
+const errorLineDecoration = Decoration.line({ class: 'cm-error-line' })
+
+/** Highlight of the line a runtime error came from; follows edits. */
+const errorLineField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update (decorations, tr) {
+    decorations = decorations.map(tr.changes)
+    for (const effect of tr.effects) {
+      if (!effect.is(setErrorLine)) continue
+      const line = effect.value
+      decorations =
+        line !== null && line >= 1 && line <= tr.state.doc.lines
+          ? Decoration.set([errorLineDecoration.range(tr.state.doc.line(line).from)])
+          : Decoration.none
+    }
+    return decorations
+  },
+  provide: field => EditorView.decorations.from(field)
+})
+
+class TypingCursorWidget extends WidgetType {
+  toDOM () {
+    const cursor = document.createElement('span')
+    cursor.className = 'cm-typing-cursor'
+    return cursor
+  }
+}
+
+/** Blinking cursor at the end of the document, shown while code streams in. */
+const typingCursor = EditorView.decorations.compute(['doc'], state =>
+  Decoration.set([
+    Decoration.widget({ widget: new TypingCursorWidget(), side: 1 }).range(
+      state.doc.length
+    )
+  ])
+)
+
+/**
+ * Code editor element wrapping CodeMirror. Provides line numbers, bracket
+ * matching, auto-indent, find/replace, multiple cursors and incremental
+ * highlighting, plus p5.js completions, hover docs and lint (see
+ * p5-editor.ts). Fires `code-change` with `{ code }` when the user edits.
+ *
+ * Setting `value` replaces the document through a regular transaction, so the
+ * change can be undone and earlier edit history is kept. Each `path` has its
+ * own document state and undo history; p5.js support is for JavaScript files.
+ */
+@customElement('gdm-code-editor')
+export class CodeEditor extends LitElement {
+  @property() value = ''
+  @property() path = 'sketch.js' // File being edited
+  @property({ type: Boolean }) readonly = false
+  @property({ attribute: false }) errorLine: number | null = null // 1-based line to highlight
+  @property({ type: Boolean }) streaming = false // Code is being written by the model
+  @property({ attribute: false }) libraries?: LibrarySelection // What the sketch runs with, for lint
+
+  private view?: EditorView
+  private readonly states = new Map<string, EditorState>() // Other files' states
+  private readonly readOnlyCompartment = new Compartment()
+  private readonly streamingCompartment = new Compartment()
+  private readonly librariesCompartment = new Compartment()
+
+  /** Disable shadow DOM */
+  createRenderRoot () {
+    return this
+  }
+
+  connectedCallback () {
+    super.connectedCallback()
+    // Re-create the view when the element is re-attached after a disconnect.
+    if (this.hasUpdated && !this.view) this.createView()
+  }
+
+  protected firstUpdated () {
+    this.createView()
+  }
+
+  private createView () {
+    this.view = new EditorView({ parent: this, state: this.createState() })
+    this.view.dispatch({ effects: setErrorLine.of(this.errorLine) })
+  }
+
+  private createState () {
+    const isScript = fileLanguage(this.path) === 'javascript'
+    return EditorState.create({
+      doc: this.value,
+      extensions: [
+        basicSetup,
+        keymap.of([indentWithTab]),
+        isScript ? [javascript(), p5Support()] : [],
+        oneDark,
+        this.readOnlyCompartment.of(this.readOnlyExtension()),
+        this.streamingCompartment.of(this.streaming ? typingCursor : []),
+        this.librariesCompartment.of(this.librariesExtension()),
+        errorLineField,
+        EditorView.updateListener.of(update => {
+          const external = update.transactions.some(
+            tr => tr.annotation(Transaction.remote)
+          )
+          if (update.docChanged && !external) {
+            this.value = update.state.doc.toString()
+            this.dispatchEvent(
+              new CustomEvent('code-change', { detail: { code: this.value } })
+            )
+          }
+        })
+      ]
+    })
+  }
+
+  protected updated (changedProperties: Map<string, unknown>) {
+    if (!this.view) return
+
+    const previousPath = changedProperties.get('path') as string | undefined
+    if (previousPath !== undefined && previousPath !== this.path) {
+      // Switch files, keeping each file's state
+      this.states.set(previousPath, this.view.state)
+      this.view.setState(this.states.get(this.path) ?? this.createState())
+      this.states.delete(this.path)
+      this.view.dispatch({
+        effects: [
+          setErrorLine.of(this.errorLine),
+          this.readOnlyCompartment.reconfigure(this.readOnlyExtension()),
+          this.streamingCompartment.reconfigure(this.streaming ? typingCursor : []),
+          this.librariesCompartment.reconfigure(this.librariesExtension())
+        ]
+      })
+    }
+
+    if (changedProperties.has('value')) {
+      const current = this.view.state.doc.toString()
+      if (current !== this.value) {
+        // Streamed code only grows, so only the new text is inserted
+        const from = this.value.startsWith(current) ? current.length : 0
+        this.view.dispatch({
+          changes: { from, to: current.length, insert: this.value.slice(from) },
+          annotations: Transaction.remote.of(true),
+          effects: this.streaming
+            ? EditorView.scrollIntoView(this.value.length)
+            : []
+        })
+      }
+    }
+    if (changedProperties.has('streaming')) {
+      this.view.dispatch({
+        effects: this.streamingCompartment.reconfigure(
+          this.streaming ? typingCursor : []
+        )
+      })
+    }
+    if (changedProperties.has('errorLine')) {
+      this.view.dispatch({ effects: setErrorLine.of(this.errorLine) })
+    }
+    if (changedProperties.has('libraries')) {
+      this.view.dispatch({
+        effects: this.librariesCompartment.reconfigure(this.librariesExtension())
+      })
+    }
+    if (changedProperties.has('readonly')) {
+      this.view.dispatch({
+        effects: this.readOnlyCompartment.reconfigure(this.readOnlyExtension())
+      })
+    }
+  }
+
+  /** Move the cursor to a 1-based line and column and scroll it into view. */
+  revealLine (line: number, column = 1) {
+    if (!this.view) return
+    const doc = this.view.state.doc
+    const target = doc.line(Math.min(Math.max(line, 1), doc.lines))
+    const pos = Math.min(target.from + column - 1, target.to)
+    this.view.dispatch({
+      selection: { anchor: pos },
+      effects: EditorView.scrollIntoView(pos, { y: 'center' })
+    })
+    this.view.focus()
+  }
+
+  disconnectedCallback () {
+    super.disconnectedCallback()
+    this.view?.destroy()
+    this.view = undefined
+  }
+
+  private librariesExtension () {
+    return this.libraries ? p5Libraries.of(this.libraries) : []
+  }
+
+  private readOnlyExtension () {
+    return [
+      EditorState.readOnly.of(this.readonly),
+      EditorView.editable.of(!this.readonly)
+    ]
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { html, LitElement } from 'lit'
+import { customElement, property, state } from 'lit/decorators.js'
+// tslint:disable-next-line:ban-malformed-import-paths
+import hljs from 'highlight.js'
+import { classMap } from 'lit/directives/class-map.js'
+import { map } from 'lit/directives/map.js'
+import { unsafeHTML } from 'lit/directives/unsafe-html.js'
+import {
+  applyHunks,
+  buildHunks,
+  DiffLine,
+  diffLines,
+  diffWords,
+  Hunk
+} from './diff'
+
+/** One side of a side-by-side row. */
+interface Cell {
+  line?: number
+  html: string
+  op: DiffLine['op'] | 'empty'
+}
+
+interface Row {
+  left: Cell
+  right: Cell
+}
+
+function highlight (text: string) {
+  return hljs.highlight(text, { language: 'javascript', ignoreIllegals: true })
+    .value
+}
+
+/** Identify a hunk by its changes, so a rejection survives re-diffing. */
+function hunkKey (hunk: Hunk) {
+  return hunk.lines
+    .filter(line => line.op !== 'equal')
+    .map(line => (line.op === 'insert' ? '+' : '-') + line.text)
+    .join('\n')
+}
+
+/** Syntax highlight a line, marking the word segments that changed. */
+function highlightWords (segments: { text: string; changed: boolean }[]) {
+  return segments
+    .map(({ text, changed }) =>
+      changed
+        ? `<span class="diff-word">${highlight(text)}</span>`
+        : highlight(text)
+    )
+    .join('')
+}
+
+/** Pair up the lines of a hunk into side-by-side rows. */
+function toRows (lines: DiffLine[]): Row[] {
+  const rows: Row[] = []
+  let deletes: DiffLine[] = []
+  let inserts: DiffLine[] = []
+  const empty: Cell = { html: '', op: 'empty' }
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deletes.length, inserts.length); i++) {
+      const del = deletes[i]
+      const ins = inserts[i]
+      if (del && ins) {
+        const words = diffWords(del.text, ins.text)
+        rows.push({
+          left: {
+            line: del.oldLine,
+            op: 'delete',
+            html: highlightWords(
+              words
+                .filter(w => w.op !== 'insert')
+                .map(w => ({ text: w.text, changed: w.op === 'delete' }))
+            )
+          },
+          right: {
+            line: ins.newLine,
+            op: 'insert',
+            html: highlightWords(
+              words
+                .filter(w => w.op !== 'delete')
+                .map(w => ({ text: w.text, changed: w.op === 'insert' }))
+            )
+          }
+        })
+      } else if (del) {
+        rows.push({
+          left: { line: del.oldLine, op: 'delete', html: highlight(del.text) },
+          right: empty
+        })
+      } else {
+        rows.push({
+          left: empty,
+          right: { line: ins.newLine, op: 'insert', html: highlight(ins.text) }
+        })
+      }
+    }
+    deletes = []
+    inserts = []
+  }
+
+  for (const line of lines) {
+    if (line.op === 'delete') {
+      deletes.push(line)
+    } else if (line.op === 'insert') {
+      inserts.push(line)
+    } else {
+      flush()
+      const cell = (n?: number): Cell => ({ line: n, op: 'equal', html: highlight(line.text) })
+      rows.push({ left: cell(line.oldLine), right: cell(line.newLine) })
+    }
+  }
+  flush()
+  return rows
+}
+
+/**
+ * Side-by-side diff of two code versions. When `mergeable` is set the old
+ * side is the editor code: accepting a hunk fires a `merge-code` event with
+ * the editor code plus that change.
+ */
+@customElement('gdm-diff-view')
+export class DiffView extends LitElement {
+  @property() oldCode = ''
+  @property() newCode = ''
+  @property() oldLabel = ''
+  @property() newLabel = ''
+  @property({ type: Boolean }) mergeable = false
+
+  @state() rejected = new Set<string>()
+
+  private lines: DiffLine[] = []
+  private hunks: Hunk[] = []
+
+  /** Disable shadow DOM */
+  createRenderRoot () {
+    return this
+  }
+
+  protected willUpdate (changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('oldCode') || changedProperties.has('newCode')) {
+      this.lines = diffLines(this.oldCode, this.newCode)
+      this.hunks = buildHunks(this.lines)
+    }
+    if (changedProperties.has('newCode')) {
+      this.rejected = new Set()
+    }
+  }
+
+  private acceptHunks (indexes: number[]) {
+    const code = applyHunks(this.lines, new Set(indexes))
+    this.dispatchEvent(new CustomEvent('merge-code', { detail: { code } }))
+  }
+
+  private rejectHunk (hunk: Hunk) {
+    this.rejected = new Set([...this.rejected, hunkKey(hunk)])
+  }
+
+  private renderCell (cell: Cell) {
+    return html`<td class="diff-num">${cell.line ?? ''}</td>
+      <td class=${classMap({ 'diff-code': true, [`diff-${cell.op}`]: true })}>
+        ${unsafeHTML(cell.html)}
+      </td>`
+  }
+
+  render () {
+    const pending = this.hunks.filter(h => !this.rejected.has(hunkKey(h)))
+    return html`<div class="diff-view">
+      <div class="diff-summary">
+        <span>${this.hunks.length === 0
+          ? 'No differences.'
+          : `${this.hunks.length} change${this.hunks.length === 1 ? '' : 's'}`}</span>
+        ${this.mergeable && pending.length > 1
+          ? html`<button
+              @click=${() => this.acceptHunks(pending.map(h => h.index))}>
+              Accept all
+            </button>`
+          : ''}
+      </div>
+      <table class="diff-table">
+        <thead>
+          <tr>
+            <th colspan="2">${this.oldLabel}</th>
+            <th colspan="2">${this.newLabel}</th>
+          </tr>
+        </thead>
+        ${map(
+          pending,
+          hunk => html`<tbody class="diff-hunk">
+            <tr class="diff-hunk-header">
+              <td colspan="4">
+                <span>@@ -${hunk.oldStart} +${hunk.newStart} @@</span>
+                ${this.mergeable
+                  ? html`<button @click=${() => this.acceptHunks([hunk.index])}>
+                        Accept
+                      </button>
+                      <button @click=${() => this.rejectHunk(hunk)}>
+                        Reject
+                      </button>`
+                  : ''}
+              </td>
+            </tr>
+            ${map(
+              toRows(hunk.lines),
+              row => html`<tr>
+                ${this.renderCell(row.left)} ${this.renderCell(row.right)}
+              </tr>`
+            )}
+          </tbody>`
+        )}
+      </table>
+    </div>`
+  }
+}
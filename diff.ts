@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+export type DiffOp = 'equal' | 'insert' | 'delete'
+
+/** One line of a line-level diff. Line numbers are 1-based. */
+export interface DiffLine {
+  op: DiffOp
+  text: string
+  oldLine?: number
+  newLine?: number
+  hunk?: number // Index of the hunk this change belongs to
+}
+
+/** A group of nearby changes with surrounding context. */
+export interface Hunk {
+  index: number
+  oldStart: number
+  newStart: number
+  lines: DiffLine[]
+}
+
+/** One segment of a word-level diff. */
+export interface WordSegment {
+  op: DiffOp
+  text: string
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists. Common prefix and
+ * suffix are trimmed first, which keeps the table small for typical edits.
+ */
+function diffSequences (a: string[], b: string[]): Array<[DiffOp, number, number]> {
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const n = endA - start
+  const m = endB - start
+  // lcs[i * (m + 1) + j] = LCS length of a[start + i..] and b[start + j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+    }
+  }
+
+  const ops: Array<[DiffOp, number, number]> = []
+  for (let k = 0; k < start; k++) ops.push(['equal', k, k])
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      ops.push(['equal', start + i, start + j])
+      i++
+      j++
+    } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+      ops.push(['insert', -1, start + j])
+      j++
+    } else {
+      ops.push(['delete', start + i, -1])
+      i++
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) ops.push(['equal', endA + k, endB + k])
+
+  // Show deletions before insertions within each change block.
+  const ordered: Array<[DiffOp, number, number]> = []
+  let inserts: Array<[DiffOp, number, number]> = []
+  for (const op of ops) {
+    if (op[0] === 'insert') {
+      inserts.push(op)
+    } else if (op[0] === 'delete') {
+      ordered.push(op)
+    } else {
+      ordered.push(...inserts, op)
+      inserts = []
+    }
+  }
+  ordered.push(...inserts)
+  return ordered
+}
+
+/** Line-level diff of two texts. */
+export function diffLines (oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n')
+  const b = newText.split('\n')
+  return diffSequences(a, b).map(([op, i, j]) => ({
+    op,
+    text: op === 'insert' ? b[j] : a[i],
+    oldLine: i >= 0 ? i + 1 : undefined,
+    newLine: j >= 0 ? j + 1 : undefined
+  }))
+}
+
+/** Word-level diff of two lines; whitespace runs are kept as their own tokens. */
+export function diffWords (oldLine: string, newLine: string): WordSegment[] {
+  const tokenize = (s: string) => s.match(/\w+|\s+|[^\w\s]/g) ?? []
+  const a = tokenize(oldLine)
+  const b = tokenize(newLine)
+  const segments: WordSegment[] = []
+  for (const [op, i, j] of diffSequences(a, b)) {
+    const text = op === 'insert' ? b[j] : a[i]
+    const last = segments[segments.length - 1]
+    if (last && last.op === op) {
+      last.text += text
+    } else {
+      segments.push({ op, text })
+    }
+  }
+  return segments
+}
+
+/**
+ * Group changed lines into hunks with `context` lines around them. Changed
+ * lines in `lines` are tagged with their hunk index.
+ */
+export function buildHunks (lines: DiffLine[], context = 3): Hunk[] {
+  const hunks: Hunk[] = []
+  let current: Hunk | null = null
+  let lastChange = -Infinity
+
+  lines.forEach((line, i) => {
+    if (line.op === 'equal') return
+    if (!current || i - lastChange > context * 2) {
+      const from = Math.max(0, i - context, lastChange + context + 1)
+      current = {
+        index: hunks.length,
+        oldStart: lines[from].oldLine ?? line.oldLine ?? 0,
+        newStart: lines[from].newLine ?? line.newLine ?? 0,
+        lines: lines.slice(from, i)
+      }
+      hunks.push(current)
+    } else {
+      current.lines.push(...lines.slice(lastChange + 1, i))
+    }
+    line.hunk = current.index
+    current.lines.push(line)
+    lastChange = i
+  })
+
+  // Trailing context of each hunk.
+  hunks.forEach((hunk, h) => {
+    const lastLine = hunk.lines[hunk.lines.length - 1]
+    const end = lines.indexOf(lastLine)
+    const nextStart = h + 1 < hunks.length ? lines.indexOf(hunks[h + 1].lines[0]) : lines.length
+    hunk.lines.push(...lines.slice(end + 1, Math.min(end + 1 + context, nextStart)))
+  })
+  return hunks
+}
+
+/**
+ * Rebuild the old text with only the accepted hunks applied, i.e. merge
+ * selected parts of the new text into the old one.
+ */
+export function applyHunks (lines: DiffLine[], accepted: Set<number>): string {
+  const result: string[] = []
+  for (const line of lines) {
+    const isAccepted = line.hunk !== undefined && accepted.has(line.hunk)
+    if (
+      line.op === 'equal' ||
+      (line.op === 'delete' && !isAccepted) ||
+      (line.op === 'insert' && isAccepted)
+    ) {
+      result.push(line.text)
+    }
+  }
+  return result.join('\n')
+}
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it, vi } from 'vitest'
+import { exportProject } from './export'
+import { P5_COMPAT_SCRIPT } from './libraries'
+import { readZip } from './zip'
+
+describe('exportProject', () => {
+  it('writes the compat script and the seed into index.html', async () => {
+    // No served libraries here, so the CDN is linked
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const blob = await exportProject({
+      name: 'Sketch',
+      code: 'new p5((p) => {})',
+      files: [],
+      assets: [],
+      prompts: ['Draw a circle'],
+      libraries: { p5: 2, addons: [] },
+      seed: 1234
+    })
+    warn.mockRestore()
+    const entries = await readZip(blob)
+    const text = (path: string) => new TextDecoder().decode(entries.find(e => e.path === path)!.data)
+    const page = text('index.html')
+    expect(page.indexOf(P5_COMPAT_SCRIPT)).toBeGreaterThan(page.indexOf('p5@2.3.4/lib/p5.min.js'))
+    expect(page.indexOf('const seed = 1234;')).toBeGreaterThan(page.indexOf(P5_COMPAT_SCRIPT))
+    expect(text('sketch.js')).toBe('new p5((p) => {})')
+    expect(text('README.md')).toContain('seeded with 1234')
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { Asset, assetPath } from './assets'
+import {
+  LibrarySelection,
+  librariesLabel,
+  libraryFiles,
+  libraryUrl,
+  P5_COMPAT_SCRIPT
+} from './libraries'
+import {
+  assembleProject,
+  INDEX_FILE,
+  MAIN_FILE,
+  ProjectFile
+} from './project'
+import { seedScript } from './seed'
+import { createZip, ZipEntry } from './zip'
+
+/** Everything that goes into an exported project. */
+export interface ExportOptions {
+  name: string
+  code: string // The main sketch
+  files: ProjectFile[]
+  assets: Asset[]
+  prompts: string[] // Prompts that led to the code, oldest first
+  libraries?: LibrarySelection
+  seed?: number // Seed of random() and noise(), as in the preview
+}
+
+async function download (url: string) {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`)
+  return new Uint8Array(await res.arrayBuffer())
+}
+
+function readme (options: ExportOptions, bundled: boolean) {
+  const prompts = options.prompts.length
+    ? options.prompts.map((prompt, i) => `${i + 1}. ${prompt.replace(/\s+/g, ' ').trim()}`).join('\n')
+    : 'No prompts recorded.'
+  const label = librariesLabel(options.libraries)
+  const libraries = bundled
+    ? `${label} are included in \`lib/\`.`
+    : `${label} are loaded from a CDN; they could not be copied when this project was exported.`
+  return `# ${options.name}
+
+A p5.js sketch exported from the p5.js playground.
+
+## Running
+
+Serve this folder with any static web server and open \`index.html\`, e.g.
+\`npx serve\` or \`python3 -m http.server\`. Opening \`index.html\` straight from
+disk works for sketches without assets; browsers block loading assets from
+\`file://\` pages.
+
+${libraries}${options.seed === undefined ? '' : ` The sketch is seeded with ${options.seed}, as it was in the playground.`}
+
+## Files
+
+- \`${INDEX_FILE}\`: the page the sketch runs in
+- \`${MAIN_FILE}\`: the sketch
+${options.files.filter(f => f.name !== INDEX_FILE).map(f => `- \`${f.name}\`\n`).join('')}${options.assets.length ? '- `assets/`: images, sounds and other files loaded by the sketch\n' : ''}
+## Prompts
+
+${prompts}
+`
+}
+
+/**
+ * Bundle a project as a ZIP that runs on its own: the page is assembled the
+ * same way as in the preview, with the files kept separate and the libraries
+ * the preview runs with copied into `lib/`.
+ */
+export async function exportProject (options: ExportOptions): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const files = libraryFiles(options.libraries).map(file => ({
+    ...file,
+    path: 'lib/' + file.path.split('/').pop()
+  }))
+  const libraries: ZipEntry[] = []
+  try {
+    for (const file of files) {
+      libraries.push({ path: file.path, data: await download(libraryUrl(file)) })
+    }
+  } catch (e) {
+    console.warn('Unable to copy p5 into the export, linking the CDN instead:', e)
+    libraries.length = 0
+  }
+  const bundled = libraries.length > 0
+  // The same set-up scripts as the preview, so the sketch draws the same
+  const head = [
+    ...files.map(file => `<script src="${bundled ? file.path : file.cdn}"></script>`),
+    `<script>${P5_COMPAT_SCRIPT}</script>`,
+    ...(options.seed === undefined ? [] : [`<script>${seedScript(options.seed)}</script>`])
+  ].join('\n')
+  const page = assembleProject(
+    options.files,
+    { head, sketch: `<script src="${MAIN_FILE}"></script>` },
+    { inline: false }
+  )
+
+  const entries: ZipEntry[] = [
+    { path: INDEX_FILE, data: encoder.encode(page) },
+    { path: MAIN_FILE, data: encoder.encode(options.code) },
+    ...options.files
+      .filter(f => f.name !== INDEX_FILE)
+      .map(f => ({ path: f.name, data: encoder.encode(f.content) })),
+    ...libraries,
+    { path: 'README.md', data: encoder.encode(readme(options, bundled)) }
+  ]
+  for (const asset of options.assets) {
+    entries.push({
+      path: assetPath(asset.name),
+      data: new Uint8Array(await asset.data.arrayBuffer())
+    })
+  }
+  return createZip(entries)
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import { blockFileName, extractSketch, parseCodeBlocks, replaceCodeBlocks } from './extract'
+
+const fence = '```'
+const sketch = 'new p5((p) => {\n  p.setup = () => p.createCanvas(100, 100)\n})'
+
+describe('parseCodeBlocks', () => {
+  it('finds tagged, untagged and unclosed blocks', () => {
+    const text = `Intro\n${fence}js\nlet a = 1\n${fence}\nMiddle\n${fence}\n${sketch}\n${fence}\n${fence}css\nbody {`
+    const blocks = parseCodeBlocks(text)
+    expect(blocks.map(b => [b.language, b.closed])).toEqual([
+      ['javascript', true],
+      ['javascript', true],
+      ['css', false]
+    ])
+    expect(text.slice(blocks[0].from, blocks[0].to)).toBe(`${fence}js\nlet a = 1\n${fence}`)
+  })
+
+  it('only closes a block with a matching fence', () => {
+    const blocks = parseCodeBlocks(`~~~~js\n${fence}\nstill code\n~~~~`)
+    expect(blocks).toHaveLength(1)
+    expect(blocks[0].code).toBe(`${fence}\nstill code`)
+  })
+})
+
+describe('blockFileName', () => {
+  const block = (info: string, language: 'javascript' | 'css' | 'glsl', code = '') =>
+    ({ info, language, code, closed: true, from: 0, to: 0 })
+
+  it('reads names from the info string', () => {
+    expect(blockFileName(block('javascript helpers.js', 'javascript'))).toBe('helpers.js')
+    expect(blockFileName(block('css title="theme.css"', 'css'))).toBe('theme.css')
+  })
+
+  it('gives unnamed blocks their conventional names', () => {
+    expect(blockFileName(block('css', 'css'))).toBe('style.css')
+    expect(blockFileName(block('glsl', 'glsl', 'gl_Position = vec4(1.0);'))).toBe('shader.vert')
+    expect(blockFileName(block('glsl', 'glsl', 'gl_FragColor = vec4(1.0);'))).toBe('shader.frag')
+    expect(blockFileName(block('js', 'javascript'))).toBeNull()
+  })
+})
+
+describe('extractSketch', () => {
+  it('picks the block that looks most like a sketch, and keeps the other files', () => {
+    const text = [
+      `${fence}js\nfunction helper () {}\n${fence}`,
+      `${fence}js\n${sketch}\n${fence}`,
+      `${fence}css\nbody { margin: 0 }\n${fence}`,
+      `${fence}js utils.js\nexport const x = 1\n${fence}`
+    ].join('\n')
+    expect(extractSketch(text)).toEqual({
+      code: sketch + '\n',
+      files: [
+        { name: 'style.css', content: 'body { margin: 0 }\n' },
+        { name: 'utils.js', content: 'export const x = 1\n' }
+      ]
+    })
+  })
+
+  it('prefers a block named sketch.js', () => {
+    const text = `${fence}js sketch.js\nlet named = true\n${fence}\n${fence}js\n${sketch}\n${fence}`
+    expect(extractSketch(text)?.code).toBe('let named = true\n')
+  })
+
+  it('skips a cut-off block when asked', () => {
+    const text = `${fence}js\n${sketch}`
+    expect(extractSketch(text)?.code).toBe(sketch + '\n')
+    expect(extractSketch(text, { includeUnclosed: false })).toBeNull()
+  })
+
+  it('returns null without code', () => {
+    expect(extractSketch('Just words.')).toBeNull()
+  })
+})
+
+describe('replaceCodeBlocks', () => {
+  it('replaces blocks and keeps the text around them', () => {
+    const text = `Before\n${fence}js\nlet a\n${fence}\nAfter`
+    expect(replaceCodeBlocks(text, b => `[${b.language}]`)).toBe('Before\n[javascript]\nAfter')
+  })
+})
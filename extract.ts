@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import {
+  fileLanguage,
+  INDEX_FILE,
+  isValidFileName,
+  MAIN_FILE,
+  ProjectFile
+} from './project'
+
+export type BlockLanguage = 'javascript' | 'html' | 'css' | 'glsl' | 'other'
+
+/** A fenced code block in a model response. */
+export interface CodeBlock {
+  language: BlockLanguage
+  info: string // Everything after the opening fence, e.g. "glsl shader.frag"
+  code: string
+  closed: boolean // False for a block cut off at the end of the text
+  from: number // Offsets of the whole block, fences included
+  to: number
+}
+
+/** The project changes in a model response. */
+export interface ExtractedSketch {
+  code: string | null // The main sketch, unless only other files changed
+  files: ProjectFile[] // Other project files created or changed
+}
+
+const LANGUAGES: Record<string, BlockLanguage> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  p5: 'javascript',
+  p5js: 'javascript',
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  glsl: 'glsl',
+  frag: 'glsl',
+  vert: 'glsl',
+  shader: 'glsl'
+}
+
+const OPEN_FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)(.*)$/
+
+function blockLanguage (tag: string, code: string): BlockLanguage {
+  const language = LANGUAGES[tag.toLowerCase()]
+  if (language) return language
+  // Untagged blocks still count when they are obviously a sketch.
+  return !tag && /new\s+p5\s*\(|function\s+setup\s*\(/.test(code) ? 'javascript' : 'other'
+}
+
+/** Parse all fenced code blocks, in order. A trailing unclosed block is included. */
+export function parseCodeBlocks (text: string): CodeBlock[] {
+  const blocks: CodeBlock[] = []
+  const lines = text.split('\n')
+  let offset = 0
+  let open: { fence: string; tag: string; info: string; from: number; body: string[] } | null = null
+
+  for (const line of lines) {
+    const lineEnd = offset + line.length
+    if (!open) {
+      const match = line.match(OPEN_FENCE)
+      if (match) {
+        open = { fence: match[1], tag: match[2], info: (match[2] + match[3]).trim(), from: offset, body: [] }
+      }
+    } else if (
+      line.trim().startsWith(open.fence) &&
+      line.trim().replace(/[`~]/g, '') === '' &&
+      line.trim()[0] === open.fence[0]
+    ) {
+      const code = open.body.join('\n')
+      blocks.push({ language: blockLanguage(open.tag, code), info: open.info, code, closed: true, from: open.from, to: lineEnd })
+      open = null
+    } else {
+      open.body.push(line)
+    }
+    offset = lineEnd + 1
+  }
+  if (open) {
+    const code = open.body.join('\n')
+    blocks.push({ language: blockLanguage(open.tag, code), info: open.info, code, closed: false, from: open.from, to: text.length })
+  }
+  return blocks
+}
+
+/** How likely a JavaScript block is to be the complete sketch. */
+function sketchScore (block: CodeBlock) {
+  let score = 0
+  if (/new\s+p5\s*\(/.test(block.code)) score += 4
+  if (/\b(setup|draw)\b/.test(block.code)) score += 2
+  if (block.closed) score += 1
+  return score
+}
+
+/**
+ * File name for a block, from a fence info string such as
+ * `javascript helpers.js` or `css title="style.css"`. Unnamed HTML, CSS and
+ * GLSL blocks get the conventional names.
+ */
+export function blockFileName (block: CodeBlock): string | null {
+  const name = block.info.match(/([\w-][\w.-]*\.\w+)"?\s*$/)?.[1]
+  if (name && isValidFileName(name) && fileLanguage(name) !== 'other') return name
+  switch (block.language) {
+    case 'html':
+      return INDEX_FILE
+    case 'css':
+      return 'style.css'
+    case 'glsl':
+      return /gl_Position/.test(block.code) ? 'shader.vert' : 'shader.frag'
+    default:
+      return null
+  }
+}
+
+/**
+ * Find the project changes in a model response. The main sketch is the block
+ * named sketch.js or else the unnamed JavaScript block that looks most like a
+ * complete p5 sketch. Named blocks and HTML, CSS and GLSL blocks are other
+ * project files; later blocks for the same file win. Unless
+ * `includeUnclosed` is set, a block cut off at the end is ignored.
+ */
+export function extractSketch (
+  text: string,
+  { includeUnclosed = true } = {}
+): ExtractedSketch | null {
+  const blocks = parseCodeBlocks(text).filter(
+    block => (block.closed || includeUnclosed) && block.code.trim()
+  )
+
+  const files = new Map<string, ProjectFile>()
+  const scripts: CodeBlock[] = []
+  let main: CodeBlock | null = null
+  for (const block of blocks) {
+    const name = blockFileName(block)
+    if (name === MAIN_FILE) {
+      main = block
+    } else if (name) {
+      files.set(name, { name, content: block.code.trim() + '\n' })
+    } else if (block.language === 'javascript') {
+      scripts.push(block)
+    }
+  }
+
+  // Highest score wins; among equals the longest, then the last one.
+  if (!main && scripts.length > 0) {
+    main = scripts.reduce((best, block) => {
+      const diff = sketchScore(block) - sketchScore(best)
+      if (diff !== 0) return diff > 0 ? block : best
+      return block.code.length >= best.code.length ? block : best
+    })
+  }
+  if (!main && files.size === 0) return null
+  return {
+    code: main && main.code.trim() + '\n',
+    files: [...files.values()]
+  }
+}
+
+/** Replace every code block, finished or not, e.g. to show a response in the chat. */
+export function replaceCodeBlocks (
+  text: string,
+  replacement: (block: CodeBlock) => string
+) {
+  let result = ''
+  let last = 0
+  for (const block of parseCodeBlocks(text)) {
+    result += text.slice(last, block.from) + replacement(block)
+    last = block.to
+  }
+  return result + text.slice(last)
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { GenerateContentConfig, GoogleGenAI } from '@google/genai'
+import {
+  ChatConfig,
+  CodeFenceSplitter,
+  ModelProvider,
+  ProviderChat,
+  StreamPart
+} from './provider'
+
+export interface GeminiOptions {
+  apiKey?: string
+  model: string
+}
+
+/** Google Gemini through the @google/genai SDK, with thoughts streamed when thinking is on. */
+export function createGeminiProvider (options: GeminiOptions): ModelProvider {
+  const ai = new GoogleGenAI({
+    apiKey: options.apiKey,
+    apiVersion: 'v1alpha'
+  })
+
+  function createChat (config: ChatConfig): ProviderChat {
+    const generation = config.generation ?? {}
+    const thinking = generation.thinking ?? true
+    const chatConfig: GenerateContentConfig = {
+      systemInstruction: config.systemInstruction,
+      temperature: generation.temperature,
+      thinkingConfig: {
+        includeThoughts: thinking,
+        // A budget of 0 turns thinking off on models that support that
+        thinkingBudget: thinking ? generation.thinkingBudget : 0
+      }
+    }
+    const chat = ai.chats.create({
+      model: generation.model || options.model,
+      history: config.history.map(turn => ({
+        role: turn.role,
+        parts: [{ text: turn.text }]
+      })),
+      config: chatConfig
+    })
+
+    async function * sendMessageStream (
+      message: string,
+      signal?: AbortSignal
+    ): AsyncIterable<StreamPart> {
+      const splitter = new CodeFenceSplitter()
+      // A message's config replaces the chat's, so it is passed again with the signal
+      const res = await chat.sendMessageStream({
+        message,
+        config: { ...chatConfig, abortSignal: signal }
+      })
+      for await (const chunk of res) {
+        // Leaving the loop closes the response stream.
+        if (signal?.aborted) return
+        for (const candidate of chunk.candidates ?? []) {
+          for (const part of candidate.content?.parts ?? []) {
+            if (!part.text) continue
+            if (part.thought) {
+              yield { type: 'thinking', text: part.text }
+            } else {
+              yield * splitter.push(part.text)
+            }
+          }
+        }
+      }
+      yield * splitter.flush()
+    }
+
+    return { sendMessageStream }
+  }
+
+  return {
+    name: 'gemini',
+    createChat,
+    reset () {} // Chats are rebuilt from the playground messages on every send
+  }
+}
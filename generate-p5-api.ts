@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+/**
+ * Regenerate p5-api.json from p5's reference data, the data.json that
+ * p5.js builds with YUIDoc for its website:
+ *
+ *   npm run generate-api -- path/to/data.json
+ *
+ * Every public member of the p5 class and every p5.* class is listed. The
+ * descriptions already in p5-api.json are kept, since they are written for
+ * instance mode; new entries get the first sentence of the reference text.
+ */
+import fs from 'fs'
+import type { ApiClass, ApiMember } from './p5-api'
+
+/** Parameter of a YUIDoc method or constructor. */
+interface DocParam {
+  name: string
+  optional?: boolean
+  multiple?: boolean
+}
+
+/** Method, property or class in data.json. Overloads are listed separately or under `overloads`. */
+interface DocItem {
+  name?: string
+  itemtype?: 'method' | 'property'
+  class?: string
+  module?: string
+  description?: string
+  params?: DocParam[]
+  overloads?: { params?: DocParam[] }[]
+  final?: number
+  access?: string
+  deprecated?: boolean | number
+}
+
+interface DocData {
+  project: { version?: string }
+  classes: Record<string, DocItem>
+  classitems: DocItem[]
+}
+
+/** Callbacks the sketch defines rather than calls. */
+const EVENTS = new Set([
+  'setup', 'draw', 'preload', 'mousePressed', 'mouseReleased', 'mouseClicked',
+  'doubleClicked', 'mouseMoved', 'mouseDragged', 'mouseWheel', 'keyPressed',
+  'keyReleased', 'keyTyped', 'touchStarted', 'touchMoved', 'touchEnded',
+  'windowResized', 'deviceMoved', 'deviceTurned', 'deviceShaken'
+])
+
+/** Members p5 defines on its prototype without documenting them. */
+const UNDOCUMENTED: Record<string, ApiMember> = {
+  AUDIO: { kind: 'constant', module: 'core', signatures: [], description: 'createCapture() type.' },
+  VIDEO: { kind: 'constant', module: 'core', signatures: [], description: 'createCapture() type.' }
+}
+
+const API_FILE = new URL('./p5-api.json', import.meta.url)
+
+function signature (params: DocParam[] = []) {
+  const names = params.map(p => {
+    const name = p.multiple ? `...${p.name}` : p.name
+    return p.optional ? `[${name}]` : name
+  })
+  return `(${names.join(', ')})`
+}
+
+function signatures (items: DocItem[]) {
+  const all = items.flatMap(item => (item.overloads ?? [item]).map(o => signature(o.params)))
+  return [...new Set(all)]
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', quot: '"', '#39': "'", amp: '&' }
+
+/** First sentence of a reference description, as plain text. */
+function summary (description = '') {
+  const text = description
+    .replace(/<[^>]+>/g, '')
+    .replace(/`/g, '')
+    .replace(/&(lt|gt|quot|#39|amp);/g, (_, entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? text
+}
+
+function moduleOf (item: DocItem): ApiMember['module'] {
+  return item.module === 'p5.sound' ? 'sound' : 'core'
+}
+
+function isPublic (item: DocItem) {
+  return item.access !== 'private' && item.access !== 'protected' && !item.deprecated
+}
+
+function generate (data: DocData) {
+  const current = JSON.parse(fs.readFileSync(API_FILE, 'utf8'))
+
+  const grouped = new Map<string, DocItem[]>()
+  for (const item of data.classitems) {
+    // The p5 constructor is documented among its members
+    if (item.class !== 'p5' || !item.name || item.name === 'p5' || !item.itemtype || !isPublic(item)) continue
+    grouped.set(item.name, [...(grouped.get(item.name) ?? []), item])
+  }
+  const members: Record<string, ApiMember> = { ...UNDOCUMENTED }
+  for (const name of [...grouped.keys()].sort()) {
+    const items = grouped.get(name)!
+    const first = items[0]
+    const kind: ApiMember['kind'] =
+      first.itemtype === 'property'
+        ? first.final ? 'constant' : 'variable'
+        : EVENTS.has(name) ? 'event' : 'function'
+    members[name] = {
+      kind,
+      module: moduleOf(first),
+      signatures: kind === 'function' ? signatures(items) : [],
+      description: current.members[name]?.description ?? summary(first.description)
+    }
+  }
+
+  const classes: Record<string, ApiClass> = {}
+  for (const [fullName, cls] of Object.entries(data.classes).sort(([a], [b]) => a.localeCompare(b))) {
+    const name = fullName.slice(3)
+    // Constructors only, not namespaces like p5.sound
+    if (!fullName.startsWith('p5.') || !/^[A-Z]/.test(name) || !isPublic(cls)) continue
+    classes[name] = {
+      module: moduleOf(cls),
+      signatures: signatures([cls]),
+      description: current.classes[name]?.description ?? summary(cls.description)
+    }
+  }
+
+  return { p5Version: data.project.version ?? current.p5Version, members, classes }
+}
+
+const input = process.argv[2]
+if (!input) {
+  console.error('Usage: npm run generate-api -- path/to/data.json')
+  process.exit(1)
+}
+const api = generate(JSON.parse(fs.readFileSync(input, 'utf8')))
+fs.writeFileSync(API_FILE, JSON.stringify(api, null, 2) + '\n')
+console.log(`p5-api.json: ${Object.keys(api.members).length} members and ${Object.keys(api.classes).length} classes of p5.js ${api.p5Version}`)
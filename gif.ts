@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+/** A frame reduced to at most 256 colors. */
+export interface GifFrame {
+  width: number
+  height: number
+  palette: Uint8Array // RGB triples
+  indices: Uint8Array // One palette index per pixel
+}
+
+const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31
+
+interface ColorBox {
+  keys: number[]
+  channel: number // Channel with the widest range of values
+  range: number
+}
+
+function colorBox (keys: number[]): ColorBox {
+  const box = { keys, channel: 0, range: 0 }
+  for (let c = 0; c < 3; c++) {
+    let min = 31
+    let max = 0
+    for (const key of keys) {
+      const value = channel(key, c)
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+    if (max - min > box.range) {
+      box.channel = c
+      box.range = max - min
+    }
+  }
+  return box
+}
+
+/**
+ * Split the colors into at most 256 groups by median cut: the group with the
+ * widest channel range is halved at its median until there are enough.
+ */
+function medianCut (used: number[], counts: Uint32Array) {
+  const boxes = [colorBox(used)]
+  while (boxes.length < 256) {
+    let widest = 0
+    boxes.forEach((box, i) => {
+      if (box.range > boxes[widest].range) widest = i
+    })
+    const { keys, channel: c, range } = boxes[widest]
+    if (range === 0) break
+    keys.sort((a, b) => channel(a, c) - channel(b, c))
+    const total = keys.reduce((sum, key) => sum + counts[key], 0)
+    let split = 1
+    for (let seen = counts[keys[0]]; split < keys.length - 1 && seen < total / 2; split++) {
+      seen += counts[keys[split]]
+    }
+    boxes.splice(widest, 1, colorBox(keys.slice(0, split)), colorBox(keys.slice(split)))
+  }
+  return boxes.map(box => box.keys)
+}
+
+/**
+ * Reduce a frame to at most 256 colors, counted at 5 bits per channel.
+ * Sketches often use fewer, and then flat colors come out exact; otherwise
+ * the palette comes from a median cut and pixels get the nearest color.
+ */
+export function quantizeFrame (image: ImageData): GifFrame {
+  const { data, width, height } = image
+  const pixels = width * height
+  const keys = new Uint16Array(pixels)
+  const counts = new Uint32Array(32768)
+  const sums = new Float64Array(32768 * 3)
+  for (let i = 0; i < pixels; i++) {
+    const r = data[i * 4]
+    const g = data[i * 4 + 1]
+    const b = data[i * 4 + 2]
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+    keys[i] = key
+    counts[key]++
+    sums[key * 3] += r
+    sums[key * 3 + 1] += g
+    sums[key * 3 + 2] += b
+  }
+
+  const used: number[] = []
+  for (let key = 0; key < 32768; key++) if (counts[key]) used.push(key)
+  const groups = used.length <= 256 ? used.map(key => [key]) : medianCut(used, counts)
+  const palette = new Uint8Array(groups.length * 3)
+  const lookup = new Int16Array(32768).fill(-1)
+  groups.forEach((group, i) => {
+    let count = 0
+    const sum = [0, 0, 0]
+    for (const key of group) {
+      count += counts[key]
+      for (let c = 0; c < 3; c++) sum[c] += sums[key * 3 + c]
+    }
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sum[c] / count)
+    if (groups.length === used.length) lookup[group[0]] = i
+  })
+
+  // Palette index for each 5-bit color, found on first use
+  const nearest = (key: number) => {
+    const r = (key >> 10) << 3
+    const g = ((key >> 5) & 31) << 3
+    const b = (key & 31) << 3
+    let best = 0
+    let bestDistance = Infinity
+    for (let i = 0; i < groups.length; i++) {
+      const dr = palette[i * 3] - r
+      const dg = palette[i * 3 + 1] - g
+      const db = palette[i * 3 + 2] - b
+      const distance = dr * dr + dg * dg + db * db
+      if (distance < bestDistance) {
+        best = i
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+  const indices = new Uint8Array(pixels)
+  for (let i = 0; i < pixels; i++) {
+    const key = keys[i]
+    if (lookup[key] < 0) lookup[key] = nearest(key)
+    indices[i] = lookup[key]
+  }
+  return { width, height, palette, indices }
+}
+
+/** LZW-compress palette indices as GIF image data. */
+function lzw (indices: Uint8Array, minCodeSize: number) {
+  const out: number[] = []
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+  let bits = 0
+  let bitCount = 0
+  const write = (code: number) => {
+    bits |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      out.push(bits & 0xff)
+      bits >>= 8
+      bitCount -= 8
+    }
+  }
+
+  write(clearCode)
+  let current = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const next = indices[i]
+    const key = (current << 8) | next
+    const code = table.get(key)
+    if (code !== undefined) {
+      current = code
+      continue
+    }
+    write(current)
+    if (nextCode === 4096) {
+      // The table is full: start over
+      write(clearCode)
+      table = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    current = next
+  }
+  write(current)
+  write(endCode)
+  if (bitCount > 0) out.push(bits & 0xff)
+  return out
+}
+
+/**
+ * Encode one GIF frame with its own palette, so frames can be encoded as they
+ * arrive. `delay` is the time per frame in milliseconds, which GIF rounds to
+ * hundredths.
+ */
+export function encodeGifFrame (frame: GifFrame, delay: number): Uint8Array {
+  const bytes: number[] = []
+  const word = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff)
+
+  bytes.push(0x21, 0xf9, 4, 0)
+  word(Math.max(2, Math.round(delay / 10)))
+  bytes.push(0, 0)
+
+  // Palettes hold a power of two colors, at least 4
+  let paletteBits = 2
+  while (1 << paletteBits < frame.palette.length / 3) paletteBits++
+  bytes.push(0x2c)
+  word(0)
+  word(0)
+  word(frame.width)
+  word(frame.height)
+  bytes.push(0x80 | (paletteBits - 1))
+  for (let i = 0; i < (1 << paletteBits) * 3; i++) bytes.push(frame.palette[i] ?? 0)
+
+  bytes.push(paletteBits)
+  const data = lzw(frame.indices, paletteBits)
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.slice(i, i + 255)
+    bytes.push(block.length, ...block)
+  }
+  bytes.push(0)
+  return new Uint8Array(bytes)
+}
+
+/** A looping GIF of frames from encodeGifFrame(). */
+export function createGif (width: number, height: number, frames: Uint8Array[]): Blob {
+  const bytes: number[] = []
+  const word = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff)
+  const text = (value: string) => {
+    for (const char of value) bytes.push(char.charCodeAt(0))
+  }
+
+  text('GIF89a')
+  word(width)
+  word(height)
+  bytes.push(0, 0, 0) // No global palette
+  // Loop forever
+  bytes.push(0x21, 0xff, 11)
+  text('NETSCAPE2.0')
+  bytes.push(3, 1, 0, 0, 0)
+  return new Blob([new Uint8Array(bytes), ...frames, new Uint8Array([0x3b])], { type: 'image/gif' })
+}
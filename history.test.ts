@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import { buildConversation, estimateTokens } from './history'
+import type { Message } from './playground'
+
+/** Alternating user and assistant messages of about 1000 tokens each. */
+function longChat (count: number): Message[] {
+  return Array.from({ length: count }, (_, i) => {
+    const label = `message ${i} `
+    return {
+      id: String(i),
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      text: label + 'x'.repeat(4000 - label.length)
+    }
+  })
+}
+
+describe('buildConversation', () => {
+  it('keeps the whole conversation when it fits', () => {
+    const turns = buildConversation(longChat(6), { code: '', activeVersion: null })
+    // The last turn tells the model which libraries the sketch runs with
+    expect(turns).toHaveLength(7)
+    expect(turns[0].text).toMatch(/^message 0 /)
+  })
+
+  it('drops only as many older turns as needed to fit the budget', () => {
+    const maxTokens = 17500
+    const turns = buildConversation(
+      longChat(20),
+      { code: '', activeVersion: null },
+      { maxTokens, keepRecentTurns: 4 }
+    )
+    // Messages 0 to 2 go, and a summary of the two prompts among them takes their place
+    expect(turns).toHaveLength(19)
+    expect(turns[0].text).toMatch(/^Summary of our earlier conversation/)
+    expect(turns[0].text).toContain('message 0')
+    expect(turns[0].text).toContain('message 2')
+    expect(turns[1].text).toMatch(/^message 3 /)
+    const total = turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0)
+    expect(total).toBeLessThanOrEqual(maxTokens + estimateTokens(turns[0].text))
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { AssetInfo, assetPrompt } from './assets'
+import { LibrarySelection, libraryPrompt } from './libraries'
+import type { Message } from './playground'
+import { fileLanguage, ProjectFile } from './project'
+import type { CodeVersion } from './versions'
+
+/** Options controlling how much of the conversation is sent to the model. */
+export interface HistoryOptions {
+  /** Rough token budget for the whole conversation. */
+  maxTokens?: number
+  /** Number of most recent turns that are always sent verbatim. */
+  keepRecentTurns?: number
+}
+
+/** Editor state when the request is sent. */
+export interface CurrentState {
+  code: string
+  files?: ProjectFile[] // The project's other files
+  assets?: AssetInfo[] // Files the sketch can load
+  libraries?: LibrarySelection // p5.js version and add-ons the sketch runs with
+  activeVersion: CodeVersion | null // Version the editor code is based on
+  /** Extra request not recorded in the messages, e.g. re-asking about an older error. */
+  prompt?: string
+}
+
+const DEFAULT_MAX_TOKENS = 24000
+const DEFAULT_KEEP_RECENT_TURNS = 4
+const SUMMARY_PROMPT_LENGTH = 80
+
+const CODE_FENCE_RE = /```[a-zA-Z]*\n?[\s\S]*?```/g
+
+/** One turn of the model-visible conversation. */
+export interface ConversationTurn {
+  role: 'user' | 'model'
+  text: string
+}
+
+/** Very rough token estimate (~4 characters per token). */
+export function estimateTokens (text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function codeBlock (code: string) {
+  return '```javascript\n' + code + '\n```'
+}
+
+/** A project file as a code block labelled with its name. */
+function fileBlock (file: ProjectFile) {
+  const language = fileLanguage(file.name)
+  const tag = language === 'other' ? '' : language + ' '
+  return '```' + tag + file.name + '\n' + file.content.replace(/\n$/, '') + '\n```'
+}
+
+/** Stack frames sent along with a runtime error; the rest is p5 internals. */
+const MAX_STACK_LINES = 6
+
+/** Prompt used when asking the model to fix a runtime error. */
+export function runtimeErrorPrompt (error: string, stack?: string, line?: number) {
+  const where = line ? ` at line ${line}` : ''
+  const trace = stack
+    ? `\nStack trace:\n${stack.split('\n').slice(0, MAX_STACK_LINES).join('\n')}\n`
+    : ' '
+  return `The p5.js runtime reported an error${where}: "${error}".${trace}Can you fix the current code?`
+}
+
+function stripHtml (html: string) {
+  return html.replace(/<[^>]+>/g, '').trim()
+}
+
+/** Map a single playground message to what the model should see, if anything. */
+function toTurn (msg: Message): ConversationTurn | null {
+  switch (msg.role) {
+    case 'user':
+      return { role: 'user', text: msg.text }
+    case 'assistant': {
+      const text =
+        msg.rawText ?? (msg.code ? codeBlock(msg.code) : stripHtml(msg.text))
+      return text ? { role: 'model', text } : null
+    }
+    case 'manual-snapshot':
+      return {
+        role: 'user',
+        text: 'I edited the code manually. My version is:\n' + codeBlock(msg.code ?? '')
+      }
+    case 'import':
+      return {
+        role: 'user',
+        text: `${stripHtml(msg.text)} Its sketch is:\n` + codeBlock(msg.code ?? '')
+      }
+    case 'system-ask':
+      return { role: 'user', text: runtimeErrorPrompt(msg.text, msg.errorStack, msg.errorLine) }
+    default:
+      // API errors, placeholders and auto-fix summaries carry nothing useful for the model.
+      return null
+  }
+}
+
+function totalTokens (turns: ConversationTurn[]) {
+  return turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0)
+}
+
+/** Join consecutive turns from the same role, the model expects them to alternate. */
+function mergeTurns (turns: ConversationTurn[]): ConversationTurn[] {
+  const merged: ConversationTurn[] = []
+  for (const turn of turns) {
+    const last = merged[merged.length - 1]
+    if (last && last.role === turn.role) {
+      last.text += '\n\n' + turn.text
+    } else {
+      merged.push({ ...turn })
+    }
+  }
+  return merged
+}
+
+/**
+ * Shrink the conversation to fit the token budget. Older turns first lose
+ * their code blocks, then are dropped and replaced by a one-line summary of
+ * what the user asked for.
+ */
+function fitToBudget (turns: ConversationTurn[], maxTokens: number, keepRecent: number): ConversationTurn[] {
+  if (totalTokens(turns) <= maxTokens) return turns
+
+  const cutoff = Math.max(0, turns.length - keepRecent)
+  let result = turns.map((turn, i) =>
+    i < cutoff
+      ? { ...turn, text: turn.text.replace(CODE_FENCE_RE, '*(earlier code version omitted)*') }
+      : turn
+  )
+
+  // Drop the oldest turns until the rest fits
+  let total = totalTokens(result)
+  const dropped: ConversationTurn[] = []
+  while (total > maxTokens && dropped.length < cutoff) {
+    const turn = result[dropped.length]
+    dropped.push(turn)
+    total -= estimateTokens(turn.text)
+  }
+  if (dropped.length === 0) return result
+  result = result.slice(dropped.length)
+
+  const asks = dropped
+    .filter(turn => turn.role === 'user')
+    .map(turn => {
+      const text = turn.text.replace(/\s+/g, ' ').trim()
+      return text.length > SUMMARY_PROMPT_LENGTH
+        ? `"${text.substring(0, SUMMARY_PROMPT_LENGTH)}..."`
+        : `"${text}"`
+    })
+  const summary = asks.length
+    ? `Summary of our earlier conversation, which has been shortened: I asked for ${asks.join('; ')}.`
+    : 'Our earlier conversation has been shortened.'
+  return [{ role: 'user', text: summary }, ...result]
+}
+
+/** Find the most recent code-carrying turn in the conversation. */
+function latestCode (messages: Message[]): Message | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i]
+    if (msg.code && ['assistant', 'manual-snapshot', 'import'].includes(msg.role)) {
+      return msg
+    }
+  }
+  return undefined
+}
+
+/**
+ * Build the model-visible conversation from the playground messages.
+ *
+ * The last entry is always a user turn: it is the message to send, the rest is
+ * the chat history. When the code in the editor is not the latest version in
+ * the conversation (an older version was loaded, or edits were not
+ * snapshotted), the current code is attached to that final turn so the model
+ * knows what it is working from. The project's other files, the list of
+ * assets and the libraries are always attached, as they may change outside
+ * the conversation.
+ */
+export function buildConversation (
+  messages: Message[],
+  current: CurrentState,
+  options: HistoryOptions = {}
+): ConversationTurn[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS
+  const keepRecent = options.keepRecentTurns ?? DEFAULT_KEEP_RECENT_TURNS
+
+  let turns = messages.map(toTurn).filter((turn): turn is ConversationTurn => turn !== null)
+  if (current.prompt) {
+    turns.push({ role: 'user', text: current.prompt })
+  }
+
+  const latest = latestCode(messages)
+  if (current.code && latest?.code !== current.code) {
+    const base = current.activeVersion
+    const edited = base ? base.code !== current.code : false
+    let note = 'This is the current code in the editor:'
+    if (base && base.id !== latest?.versionId) {
+      const origin = base.prompt ? ` (the one made for "${base.prompt}")` : ''
+      note = edited
+        ? `I went back to an earlier version${origin} and edited it. This is the current code:`
+        : `I went back to an earlier version${origin}. This is the current code:`
+    }
+    turns.push({ role: 'user', text: note + '\n' + codeBlock(current.code) })
+  }
+  if (current.files?.length) {
+    const files = current.files.map(fileBlock).join('\n\n')
+    turns.push({ role: 'user', text: 'The project also has these files:\n' + files })
+  }
+  if (current.assets?.length) {
+    turns.push({ role: 'user', text: assetPrompt(current.assets) })
+  }
+  turns.push({ role: 'user', text: libraryPrompt(current.libraries) })
+
+  if (turns.length === 0 || turns[turns.length - 1].role !== 'user') {
+    turns.push({ role: 'user', text: 'Please continue.' })
+  }
+
+  turns = fitToBudget(mergeTurns(turns), maxTokens, keepRecent)
+  // Summaries may have produced two user turns in a row.
+  return mergeTurns(turns)
+}
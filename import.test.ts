@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import { ImportedProject, importProject, renameAssetReferences } from './import'
+import { createZip, readZip } from './zip'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+const project = (code: string, page = ''): ImportedProject => ({
+  name: 'Sketch',
+  code,
+  files: page ? [{ name: 'index.html', content: page }] : [],
+  assets: [],
+  skipped: []
+})
+
+describe('zip', () => {
+  it('reads back what it writes', async () => {
+    const entries = [
+      { path: 'sketch.js', data: encode('new p5((p) => {})') },
+      { path: 'assets/café.png', data: new Uint8Array([0, 1, 2, 255]) },
+      { path: 'empty.txt', data: new Uint8Array() }
+    ]
+    expect(await readZip(createZip(entries))).toEqual(entries)
+  })
+})
+
+describe('importProject', () => {
+  it('imports a downloaded bundle', async () => {
+    const zip = createZip([
+      { path: 'My Sketch/index.html', data: encode('<script src="p5.min.js"></script>\n<script src="app.js"></script>') },
+      { path: 'My Sketch/app.js', data: encode('function setup () {}') },
+      { path: 'My Sketch/helpers.js', data: encode('const helper = 1') },
+      { path: 'My Sketch/p5.min.js', data: encode('/* p5 */') },
+      { path: 'My Sketch/assets/cat.png', data: new Uint8Array([1, 2, 3]) },
+      { path: 'My Sketch/css/extra.css', data: encode('body {}') },
+      { path: '__MACOSX/My Sketch/._app.js', data: encode('') }
+    ])
+    const project = await importProject(new File([zip], 'bundle.zip'))
+    expect(project.name).toBe('bundle')
+    expect(project.code).toBe('function setup () {}')
+    expect(project.files).toEqual([
+      { name: 'helpers.js', content: 'const helper = 1' },
+      { name: 'index.html', content: '<script src="p5.min.js"></script>\n<script src="sketch.js"></script>' }
+    ])
+    expect(project.assets.map(a => a.name)).toEqual(['cat.png'])
+    expect(project.skipped).toEqual(['css/extra.css'])
+  })
+
+  it('imports a single script', async () => {
+    const project = await importProject(new File(['new p5((p) => {})'], 'circles.js'))
+    expect(project).toEqual({ name: 'circles', code: 'new p5((p) => {})', files: [], assets: [], skipped: [] })
+  })
+
+  it('imports a p5.js web editor project', async () => {
+    const json = {
+      name: 'Editor sketch',
+      files: [
+        { id: 'root', name: 'root', fileType: 'folder', children: ['a', 'b'] },
+        { id: 'a', name: 'sketch.js', fileType: 'file', content: 'function draw () {}' },
+        { id: 'b', name: 'style.css', fileType: 'file', content: 'canvas {}' }
+      ]
+    }
+    const project = await importProject(new File([JSON.stringify(json)], 'project.json'))
+    expect(project.name).toBe('Editor sketch')
+    expect(project.code).toBe('function draw () {}')
+    expect(project.files).toEqual([{ name: 'style.css', content: 'canvas {}' }])
+  })
+
+  it('rejects other files', async () => {
+    await expect(importProject(new File(['hi'], 'notes.txt'))).rejects.toThrow('Import a .js file')
+  })
+})
+
+describe('renameAssetReferences', () => {
+  it('points quoted paths in any folder at the renamed assets', () => {
+    const renamed = renameAssetReferences(
+      project(`p.loadImage('assets/cat.png'); p.loadImage("cat.png"); p.loadSound(\`data/meow.mp3\`)`, '<img src="assets/cat.png">'),
+      { 'cat.png': 'cat (2).png', 'meow.mp3': 'meow (2).mp3' }
+    )
+    expect(renamed.code).toBe(`p.loadImage('assets/cat (2).png'); p.loadImage("cat (2).png"); p.loadSound(\`data/meow (2).mp3\`)`)
+    expect(renamed.files[0].content).toBe('<img src="assets/cat (2).png">')
+  })
+
+  it('leaves other names alone and renames each path once', () => {
+    const renamed = renameAssetReferences(
+      project(`['bigcat.png', 'cat.png.bak', 'cat.png', 'cat (2).png']`),
+      { 'cat.png': 'cat (2).png', 'cat (2).png': 'cat (3).png' }
+    )
+    expect(renamed.code).toBe(`['bigcat.png', 'cat.png.bak', 'cat (2).png', 'cat (3).png']`)
+  })
+})
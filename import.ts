@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { escapeHtml } from './html'
+import {
+  fileLanguage,
+  INDEX_FILE,
+  isValidFileName,
+  MAIN_FILE,
+  ProjectFile
+} from './project'
+import { readZip } from './zip'
+
+/** A file to add to the session's assets. */
+export interface ImportedAsset {
+  name: string
+  data: Blob
+}
+
+/** A sketch brought in from outside the playground. */
+export interface ImportedProject {
+  name: string
+  code: string // The main sketch
+  files: ProjectFile[]
+  assets: ImportedAsset[]
+  skipped: string[] // Paths that could not be imported
+}
+
+/** A file of the sketch being imported, with its path in the original project. */
+interface SourceFile {
+  path: string
+  data: Blob
+}
+
+/** p5 itself and its addons, which the playground provides. */
+const LIBRARY_RE = /(^|\/)p5(\.[\w-]+)*\.js$/
+const JUNK_RE = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|README\.md$)/
+const SETUP_RE = /\b(setup|draw)\b/
+
+/** Languages kept as project files; everything else becomes an asset. */
+const PROJECT_LANGUAGES = ['javascript', 'html', 'css']
+
+function baseName (path: string) {
+  return path.split('/').pop()!
+}
+
+function stripExtension (name: string) {
+  return name.replace(/\.[^.]+$/, '')
+}
+
+/** Remove a folder that wraps every file, as in most downloaded bundles. */
+function stripCommonFolder (sources: SourceFile[]) {
+  const first = sources[0]?.path.split('/')
+  if (!first || first.length < 2) return sources
+  const folder = first[0] + '/'
+  if (!sources.every(s => s.path.startsWith(folder))) return sources
+  return sources.map(s => ({ ...s, path: s.path.slice(folder.length) }))
+}
+
+/**
+ * Pick the main sketch: sketch.js, else the last top-level script the page
+ * loads, else the top-level script that looks most like a sketch.
+ */
+function findMainScript (scripts: Map<string, string>, page?: string) {
+  if (scripts.has(MAIN_FILE)) return MAIN_FILE
+  const loaded = [...(page ?? '').matchAll(/<script\b[^>]*\bsrc\s*=\s*["']\.?\/?([^"'/]+)["']/gi)]
+    .map(match => match[1])
+    .filter(name => scripts.has(name))
+  if (loaded.length) return loaded[loaded.length - 1]
+  const names = [...scripts.keys()]
+  return (
+    names.find(name => SETUP_RE.test(scripts.get(name)!)) ?? names[0] ?? null
+  )
+}
+
+/** Turn the files of an existing project into a playground project. */
+async function buildProject (name: string, all: SourceFile[]): Promise<ImportedProject> {
+  const sources = stripCommonFolder(all.filter(s => !JUNK_RE.test(s.path)))
+  const texts = new Map<string, string>()
+  const assets: ImportedAsset[] = []
+  const skipped: string[] = []
+
+  for (const source of sources) {
+    if (LIBRARY_RE.test(source.path)) continue
+    const language = fileLanguage(source.path)
+    if (PROJECT_LANGUAGES.includes(language)) {
+      if (source.path.includes('/') || !isValidFileName(source.path)) {
+        skipped.push(source.path) // Projects have no folders
+      } else {
+        texts.set(source.path, await source.data.text())
+      }
+    } else {
+      assets.push({ name: baseName(source.path), data: source.data })
+    }
+  }
+
+  const scripts = new Map(
+    [...texts].filter(([path]) => fileLanguage(path) === 'javascript')
+  )
+  const main = findMainScript(scripts, texts.get(INDEX_FILE))
+  if (!main) throw new Error('No sketch script found')
+
+  let page = texts.get(INDEX_FILE)
+  if (page && main !== MAIN_FILE) {
+    // The main sketch is always sketch.js in the playground
+    page = page.replace(
+      new RegExp(`(<script\\b[^>]*\\bsrc\\s*=\\s*["']\\.?/?)${main.replace(/\./g, '\\.')}(["'])`, 'gi'),
+      `$1${MAIN_FILE}$2`
+    )
+    texts.set(INDEX_FILE, page)
+  }
+  const files = [...texts]
+    .filter(([path]) => path !== main)
+    .map(([path, content]) => ({ name: path, content }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  return { name, code: texts.get(main)!, files, assets, skipped }
+}
+
+/** A project file in the p5.js web editor's project JSON. */
+interface EditorFile {
+  id?: string
+  _id?: string
+  name: string
+  fileType?: 'file' | 'folder'
+  content?: string
+  url?: string // Uploaded files are stored remotely
+  children?: string[]
+}
+
+/** The p5.js web editor's project format, as returned by its API. */
+async function importEditorProject (json: { name?: string; files?: EditorFile[] }) {
+  if (!Array.isArray(json.files)) throw new Error('Not a p5.js web editor project')
+  const byId = new Map(json.files.map(f => [f.id ?? f._id ?? '', f]))
+  const root = json.files.find(f => f.name === 'root' && f.fileType === 'folder')
+
+  const sources: SourceFile[] = []
+  const skipped: string[] = []
+  const visit = async (file: EditorFile, folder: string) => {
+    const path = folder + file.name
+    if (file.fileType === 'folder') {
+      for (const id of file.children ?? []) {
+        const child = byId.get(id)
+        if (child) await visit(child, file === root ? '' : path + '/')
+      }
+    } else if (file.content !== undefined && !file.url) {
+      sources.push({ path, data: new Blob([file.content]) })
+    } else if (file.url) {
+      try {
+        const res = await fetch(file.url)
+        if (!res.ok) throw new Error(res.statusText)
+        sources.push({ path, data: await res.blob() })
+      } catch (e) {
+        console.warn(`Unable to download ${path}:`, e)
+        skipped.push(path)
+      }
+    }
+  }
+  if (root) {
+    await visit(root, '')
+  } else {
+    for (const file of json.files) await visit({ ...file, children: [] }, '')
+  }
+
+  const project = await buildProject(json.name ?? 'Imported sketch', sources)
+  return { ...project, skipped: [...skipped, ...project.skipped] }
+}
+
+/**
+ * Import a sketch from a single .js file, a ZIP bundle (index.html, scripts
+ * and assets, e.g. as downloaded from the p5.js web editor) or a p5.js web
+ * editor project JSON file.
+ */
+export async function importProject (file: File): Promise<ImportedProject> {
+  const name = stripExtension(file.name)
+  const extension = file.name.split('.').pop()!.toLowerCase()
+  if (extension === 'js') {
+    return { name, code: await file.text(), files: [], assets: [], skipped: [] }
+  }
+  if (extension === 'zip') {
+    const entries = await readZip(file)
+    return buildProject(
+      name,
+      entries.map(entry => ({ path: entry.path, data: new Blob([entry.data]) }))
+    )
+  }
+  if (extension === 'json') {
+    let json
+    try {
+      json = JSON.parse(await file.text())
+    } catch (e) {
+      throw new Error('Not a p5.js web editor project')
+    }
+    return importEditorProject(json)
+  }
+  throw new Error('Import a .js file, a .zip bundle or a p5.js web editor .json project')
+}
+
+/**
+ * Point the project's quoted asset paths, in any folder, at the names its
+ * assets were stored under, e.g. "assets/cat.png" at "assets/cat (2).png"
+ * when the session already had a cat.png.
+ */
+export function renameAssetReferences (project: ImportedProject, renames: Record<string, string>): ImportedProject {
+  const changed = Object.keys(renames).filter(name => renames[name] !== name)
+  if (!changed.length) return project
+  const names = changed.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')
+  const pattern = new RegExp(`(["'\`])((?:[^"'\`\\n]*/)?)(${names})\\1`, 'g')
+  const rename = (text: string) =>
+    text.replace(pattern, (_, quote, folder, name) => quote + folder + renames[name] + quote)
+  return {
+    ...project,
+    code: rename(project.code),
+    files: project.files.map(file => ({ ...file, content: rename(file.content) }))
+  }
+}
+
+/** Chat message shown for an import. */
+export function importSummary (project: ImportedProject) {
+  const counts = [
+    project.files.length && `${project.files.length} file${project.files.length > 1 ? 's' : ''}`,
+    project.assets.length && `${project.assets.length} asset${project.assets.length > 1 ? 's' : ''}`
+  ].filter(Boolean)
+  let text = `Imported <strong>${escapeHtml(project.name)}</strong>`
+  text += counts.length ? ` with ${counts.join(' and ')}.` : '.'
+  if (project.skipped.length) {
+    text += ` <p>Skipped: ${project.skipped.map(escapeHtml).join(', ')}</p>`
+  }
+  return text
+}
@@ -2,8 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import {GoogleGenAI} from '@google/genai';
+import {blockFileName, extractSketch, replaceCodeBlocks} from './extract';
+import {createGeminiProvider} from './gemini-provider';
+import {buildConversation, runtimeErrorPrompt} from './history';
+import {createMockProvider} from './mock-provider';
+import {createOpenAICompatibleProvider} from './openai-provider';
+import {abortable, ModelProvider} from './provider';
 import {ChatState, marked, Playground} from './playground';
+import {mergeFiles} from './project';
+import {hasErrors, validateSketch} from './validate';
 
 const SYSTEM_INSTRUCTIONS = `You're an expert creative coding agent specializing in p5.js for effects, games, and generative art.
 
@@ -17,7 +24,7 @@ Before writing any code:
 When writing code:
 - Use p5.js instance mode with standard-js formatting
 - Do not use any import statements or third-party libraries, as this is running in a browser
-- Include complete code that can run in a live p5.js environment with p5.sound available
+- Include complete code that can run in a live p5.js environment with the p5.js version and libraries named in the request
 - Set a default canvas size of windowWidth x windowHeight unless specified otherwise
 - Add clear, helpful comments for key sections
 - Include basic error handling for common issues
@@ -66,6 +73,17 @@ When writing code:
 3. 1-2 tips for modifying or extending the code
 4. Note any specific accessibility features or limitations
 
+## PROJECT FILES
+The main sketch is sketch.js. A project can also have other files: helper scripts, shaders, style.css and an index.html page that loads sketch.js. Only add files when asked or when they clearly help.
+- Put the file name after the language of each code block, e.g. \`\`\`javascript sketch.js or \`\`\`css style.css
+- To change a file, reply with its complete new content; files you don't mention stay as they are
+- When only another file changes, you don't need to repeat sketch.js
+
+## PARAMETERS
+Keep the values a user is likely to tweak (speeds, sizes, counts, colors, toggles) in a top-level \`const params = { ... }\` object in sketch.js, before \`new p5(...)\`, and read them from there while drawing. The playground shows them as sliders, color pickers and checkboxes.
+- Use number, boolean and "#rrggbb" color values
+- Add a \`// @param min max step\` comment after a number to set its slider range, e.g. \`speed: 2, // @param 0 10 0.1\`
+
 ## IMPLEMENTATION PRIORITY
 Apply these guidelines proportionally to the complexity of the requested sketch. For simpler sketches, focus on:
 1. Functional correctness and code quality
@@ -74,7 +92,7 @@ Apply these guidelines proportionally to the complexity of the requested sketch.
 
 For complex sketches, implement all guidelines with special attention to performance optimization and comprehensive documentation.
 
-There should be no external dependencies - all functions must be included in the code or be part of the p5.js and p5.sound libraries.
+There should be no external dependencies - all functions must be included in the code or be part of p5.js and the libraries named in the request.
 
 Feel free to suggest better approaches if my requests could be improved, but explain your reasoning clearly.
 `;
@@ -151,38 +169,43 @@ const EXAMPLE_PROMPTS = [
   'create a game where a space ship shoots asteroids flying around me in space',
 ];
 
-const ai = new GoogleGenAI({
-  apiKey: globalThis.process.env.API_KEY,
-  apiVersion: 'v1alpha',
-});
-
-function createAiChat() {
-  return ai.chats.create({
-    // model: 'gemini-2.5-pro-preview-03-25',
-    model: 'gemini-2.0-flash',
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTIONS,
-      thinkingConfig: {
-        includeThoughts: true,
-      },
-    },
-  });
+/**
+ * Pick the model provider from the environment (see README): Gemini by
+ * default, an OpenAI-compatible server such as a local model, or the mock
+ * provider that replays canned responses without any network.
+ */
+function createProvider(): ModelProvider {
+  const env = globalThis.process.env;
+  switch (env.PROVIDER) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: env.OPENAI_API_KEY,
+        model: env.MODEL || 'llama3.1',
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider({
+        apiKey: env.API_KEY,
+        // model: 'gemini-2.5-pro-preview-03-25',
+        model: env.MODEL || 'gemini-2.0-flash',
+      });
+  }
 }
 
-let aiChat = createAiChat();
+const provider = createProvider();
 
-function getCode(text: string) {
-  const startMark = '```javascript';
-  const codeStart = text.indexOf(startMark);
-  let codeEnd = text.lastIndexOf('```');
 
-  if (codeStart > -1) {
-    if (codeEnd < 0) {
-      codeEnd = undefined;
-    }
-    return text.substring(codeStart + startMark.length, codeEnd);
-  }
-  return '';
+/** Chat text for a response: code blocks are shown elsewhere, so they are collapsed. */
+function explanationText(text: string, stopped = false) {
+  return replaceCodeBlocks(text, (block) => {
+    if (!block.closed && stopped) return '*(Unfinished code block discarded)*';
+    const name = blockFileName(block);
+    if (name) return `*(${name} updated in Code tab)*`;
+    if (block.language === 'javascript') return '*(Code block displayed in Code tab)*';
+    return text.substring(block.from, block.to);
+  });
 }
 
 document.addEventListener('DOMContentLoaded', async (event) => {
@@ -191,6 +214,9 @@ document.addEventListener('DOMContentLoaded', async (event) => {
   const playground = new Playground();
   rootElement.appendChild(playground);
 
+  // Aborts the response being generated, if any
+  let generation: AbortController | null = null;
+
   playground.sendMessageHandler = async (
     input: string, // Raw input text
     role: string, // 'user' or 'system'
@@ -202,6 +228,29 @@ document.addEventListener('DOMContentLoaded', async (event) => {
       { input, role, codeHasChanged }
     );
 
+    // Re-asking about an error that isn't the latest message needs its own turn.
+    const lastMessage = playground.messages[playground.messages.length - 1];
+    const isPendingError = role.toUpperCase() === 'SYSTEM' &&
+      !(lastMessage?.role === 'system-ask' && lastMessage.text === input);
+
+    // Derive the model-visible conversation from the playground messages.
+    // The last entry is the message to send, everything before it is history.
+    const conversation = buildConversation(playground.messages, {
+      code: currentCode,
+      files: playground.files,
+      assets: playground.assets,
+      libraries: playground.libraries,
+      activeVersion: playground.activeVersion,
+      prompt: isPendingError ? runtimeErrorPrompt(input) : undefined,
+    });
+    // The chat is rebuilt on every send, so settings changes apply right away
+    const aiChat = provider.createChat({
+      systemInstruction: playground.systemInstruction,
+      history: conversation.slice(0, -1),
+      generation: playground.settings.generation,
+    });
+    const messageForAI = conversation[conversation.length - 1].text;
+
     // Add a placeholder message for the assistant's response. Store its ID.
     const assistantMessageId = playground.addMessage({
         role: 'assistant',
@@ -210,59 +259,30 @@ document.addEventListener('DOMContentLoaded', async (event) => {
         isThinkingOpen: true,
     });
 
-    const historyForAI = []; // Build history for the AI call
-
-    // Add previous messages from playground state (optional, but good for context)
-    // Note: This simple version doesn't send full history, adjust if needed.
-
-    // Add user message if code changed before sending
-    if (role.toUpperCase() === 'USER' && codeHasChanged) {
-      historyForAI.push({
-        role: 'user',
-        // Send the *current* code from the editor
-        text: 'I have updated the code to:\n```javascript\n' + currentCode + '\n```\nNow, please: ' + input,
-      });
-    } else if (role.toUpperCase() === 'SYSTEM') {
-       // System message (e.g., from runtime error)
-       historyForAI.push({
-         role: 'user', // Send system prompts as 'user' for the model
-         text: `The p5.js runtime reported an error: "${input}". Can you fix the current code?\nCurrent code:\n\`\`\`javascript\n${currentCode}\n\`\`\``,
-       });
-    } else {
-      // Standard user message
-      historyForAI.push({
-        role: 'user', // Always send user input as 'user' role
-        text: input,
-      });
-    }
-
-
     playground.setChatState(ChatState.GENERATING); // Initial state
 
+    // Files the response leaves alone stay as they are
+    const baseFiles = playground.files;
     let accumulatedText = '';
     let accumulatedThinking = '';
-    let finalP5Code = ''; // Store the final extracted code
+    const controller = new AbortController();
+    generation = controller;
 
     try {
-      // Use sendMessageStream with the constructed history
-      const res = await aiChat.sendMessageStream({ message: historyForAI });
-
-      for await (const chunk of res) {
+      // Stream the response parts from the provider until done or stopped
+      const stream = aiChat.sendMessageStream(messageForAI, controller.signal);
+      for await (const part of abortable(stream, controller.signal)) {
         let thinkingUpdated = false;
         let textUpdated = false;
 
-        for (const candidate of chunk.candidates ?? []) {
-          for (const part of candidate.content.parts ?? []) {
-            if (part.thought) {
-              playground.setChatState(ChatState.THINKING);
-              accumulatedThinking += part.text; // Append raw thinking text
-              thinkingUpdated = true;
-            } else if (part.text) {
-              playground.setChatState(ChatState.CODING);
-              accumulatedText += part.text; // Append raw response text
-              textUpdated = true;
-            }
-          }
+        if (part.type === 'thinking') {
+          playground.setChatState(ChatState.THINKING);
+          accumulatedThinking += part.text; // Append raw thinking text
+          thinkingUpdated = true;
+        } else {
+          playground.setChatState(ChatState.CODING);
+          accumulatedText += part.text; // Append raw response text (code parts keep their fences)
+          textUpdated = true;
         }
 
         // Update the message object in the playground state after processing chunk parts
@@ -272,11 +292,16 @@ document.addEventListener('DOMContentLoaded', async (event) => {
             updates.isThinkingOpen = true; // Keep open while streaming
         }
         if (textUpdated) {
-            // Extract code *during* streaming to potentially update preview faster (optional)
-            // finalP5Code = getCode(accumulatedText);
-            // Remove code block for display in chat bubble
-            const explanation = accumulatedText.replace(/```javascript[\s\S]*?```/g, '*(Code block updated)*');
+            // Replace completed code blocks for display in chat bubble
+            const explanation = replaceCodeBlocks(accumulatedText, (block) =>
+              block.closed ? '*(Code block updated)*' : accumulatedText.substring(block.from, block.to));
             updates.text = await marked.parse(explanation || '...'); // Render markdown
+
+            // Live preview: show the code as it's written, and run it once complete
+            const sketch = playground.settings.livePreview && extractSketch(accumulatedText);
+            if (sketch && sketch.code) {
+              playground.streamCode(sketch.code, mergeFiles(baseFiles, sketch.files));
+            }
         }
 
         if (thinkingUpdated || textUpdated) {
@@ -285,36 +310,64 @@ document.addEventListener('DOMContentLoaded', async (event) => {
       }
 
       // --- Processing after stream finishes ---
-      finalP5Code = getCode(accumulatedText); // Get final code once stream is done
+      const stopped = controller.signal.aborted;
+      if (stopped && !accumulatedText.trim() && !accumulatedThinking.trim()) {
+        // Stopped before anything arrived: drop the placeholder
+        playground.removeMessage(assistantMessageId);
+        return;
+      }
+      // A stopped response only keeps code blocks that were completed
+      const sketch = extractSketch(accumulatedText, {includeUnclosed: !stopped});
 
       // Final update to the message object
       const finalUpdates: Partial<Playground['messages'][0]> = {
           isThinkingOpen: false, // Close thinking details
+          rawText: accumulatedText, // Keep the raw response for the model-visible history
       };
 
       // Update text one last time, ensuring code block is replaced
-       const finalExplanation = accumulatedText.replace(/```javascript[\s\S]*?```/g, '*(Code block displayed in Code tab)*');
+       let finalExplanation = explanationText(accumulatedText, stopped);
+       if (stopped) {
+         finalExplanation += '\n\n*(Stopped)*';
+       }
        finalUpdates.text = await marked.parse(finalExplanation || 'Done.'); // Final rendered text
 
-      if (finalP5Code.trim().length > 0) {
+      if (sketch) {
+        // Responses that only change other files keep the sketch
+        const finalP5Code = sketch.code ?? currentCode;
+        // Record the new version as a child of the version the request was based on
+        const versionId = playground.addVersion({
+          code: finalP5Code,
+          files: mergeFiles(baseFiles, sketch.files),
+          author: 'assistant',
+          prompt: role.toUpperCase() === 'SYSTEM' ? `Fix: ${input}` : input,
+          messageId: assistantMessageId,
+        });
         finalUpdates.code = finalP5Code; // Store the raw code string
-        playground.setCode(finalP5Code, assistantMessageId); // Set code in editor/preview and link to this message
+        finalUpdates.versionId = versionId;
+
+        // Check the code before running it; broken code is shown with its
+        // diagnostics in the chat instead of crashing the preview.
+        const diagnostics = validateSketch(finalP5Code, playground.libraries);
+        if (diagnostics.length > 0) {
+          finalUpdates.diagnostics = diagnostics;
+        }
+        // Set code in editor (and preview, if valid) and make it the active version
+        playground.endCodeStream(!hasErrors(diagnostics));
+        playground.setCode(finalP5Code, versionId, !hasErrors(diagnostics));
       } else {
          // If no code was generated, maybe add a system message?
          // Or just leave the text as is.
          console.log("Assistant response did not contain executable code.");
-         // Ensure the active version is cleared if no new code is set
-         if (playground.activeCodeVersionId === assistantMessageId) {
-             playground.activeCodeVersionId = null;
-         }
+         playground.endCodeStream(false);
       }
 
       playground.updateMessage(assistantMessageId, finalUpdates);
 
 
-    } catch (e: GoogleGenAI.ClientError) { // Use specific type if available
-      console.error('GenAI SDK Error:', e);
-      let errorMessage = e.message || 'An unknown error occurred.';
+    } catch (e) {
+      console.error(`Model provider (${provider.name}) error:`, e);
+      let errorMessage = (e as Error).message || 'An unknown error occurred.';
        // Attempt to parse detailed error (keep existing parsing logic)
        const splitPos = errorMessage.indexOf('{');
         if (splitPos > -1) {
@@ -343,32 +396,45 @@ document.addEventListener('DOMContentLoaded', async (event) => {
       });
 
     } finally {
+       generation = null;
+       playground.endCodeStream(false); // Restore the editor if streaming was cut short
        playground.setChatState(ChatState.IDLE); // Ensure state is reset
        playground.scrollToTheEnd(); // Scroll after final updates
     }
   };
 
-  playground.resetHandler = async () => {
-    aiChat = createAiChat(); // Reset AI chat session
-    console.log('Chat session reset.');
-  };
+  // Let the provider start over when the playground is cleared
+  playground.resetHandler = () => provider.reset();
+  playground.stopHandler = () => generation?.abort();
 
   // --- Initial Setup ---
   playground.setDefaultCode(EMPTY_CODE);
+  playground.setDefaultInstructions(SYSTEM_INSTRUCTIONS);
 
-  // Add initial messages using the new structure
-  const initialUserMsgId = playground.addMessage({
-      role: 'user',
-      text: 'make a simple animation of the background color',
-  });
-   const initialAssistantMsgId = playground.addMessage({
-      role: 'assistant',
-      text: 'Here you go! *(Code block displayed in Code tab)*', // Initial text
-      code: STARTUP_CODE, // Store the initial code with this message
-  });
+  // Restore the last session, or seed a new one with the startup conversation
+  const restored = await playground.restoreSession();
+  if (!restored) {
+    const initialPrompt = 'make a simple animation of the background color';
+    playground.addMessage({
+        role: 'user',
+        text: initialPrompt,
+    });
+    const initialAssistantMsgId = playground.addMessage({
+        role: 'assistant',
+        text: 'Here you go! *(Code block displayed in Code tab)*', // Initial text
+        code: STARTUP_CODE, // Store the initial code with this message
+    });
+    const initialVersionId = playground.addVersion({
+        code: STARTUP_CODE,
+        author: 'assistant',
+        prompt: initialPrompt,
+        messageId: initialAssistantMsgId,
+    });
+    playground.updateMessage(initialAssistantMsgId, {versionId: initialVersionId});
 
-  // Set the initial code and link it to the assistant message
-  playground.setCode(STARTUP_CODE, initialAssistantMsgId);
+    // Set the initial code and make it the active version
+    playground.setCode(STARTUP_CODE, initialVersionId);
+  }
 
   // Set initial input field example
   playground.setInputField(
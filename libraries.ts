@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+/**
+ * A library script. The app serves it from node_modules (see vite.config.ts),
+ * so sketches run without a network; exported projects fall back to the CDN.
+ */
+export interface LibraryFile {
+  path: string // Where the app serves it, relative to the app's base URL
+  source: string // The file in node_modules
+  cdn: string
+}
+
+/** A library that can be loaded next to p5.js. */
+export interface AddonLibrary {
+  id: string
+  description: string
+  file: LibraryFile
+  prompt?: string // How to use it, for the model
+}
+
+export type P5Major = 1 | 2
+
+/** A p5.js release sketches can run with, and the add-ons built for it. */
+export interface P5Release {
+  major: P5Major
+  version: string
+  file: LibraryFile
+  addons: AddonLibrary[]
+  prompt: string // What to keep in mind when writing for this release
+}
+
+/** The libraries a sketch runs with. Each code version records its own. */
+export interface LibrarySelection {
+  p5: P5Major
+  addons: string[] // Add-on ids
+}
+
+export const P5_RELEASES: Record<P5Major, P5Release> = {
+  1: {
+    major: 1,
+    version: '1.11.3',
+    file: {
+      path: 'lib/p5-1.11.3/p5.min.js',
+      source: 'p5/lib/p5.min.js',
+      cdn: 'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.11.3/p5.min.js'
+    },
+    addons: [
+      {
+        id: 'p5.sound',
+        description: 'Sound playback, input, analysis and synthesis',
+        file: {
+          path: 'lib/p5-1.11.3/p5.sound.min.js',
+          source: 'p5/lib/addons/p5.sound.min.js',
+          cdn: 'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.11.3/addons/p5.sound.min.js'
+        }
+      }
+    ],
+    prompt: 'Use the p5.js 1.x API. Load files in preload().'
+  },
+  2: {
+    major: 2,
+    version: '2.3.4',
+    file: {
+      path: 'lib/p5-2.3.4/p5.min.js',
+      source: 'p5-2/lib/p5.min.js',
+      cdn: 'https://cdn.jsdelivr.net/npm/p5@2.3.4/lib/p5.min.js'
+    },
+    addons: [
+      {
+        id: 'p5.sound',
+        description: 'Sound playback, input and effects, built on Tone.js',
+        file: {
+          path: 'lib/p5-2.3.4/p5.sound.min.js',
+          source: 'p5.sound/dist/p5.sound.min.js',
+          cdn: 'https://cdn.jsdelivr.net/npm/p5.sound@0.4.1/dist/p5.sound.min.js'
+        },
+        prompt: 'With p5.sound, await loadSound() in setup() and start audio from a user gesture with userStartAudio().'
+      },
+      {
+        id: 'p5.webgpu',
+        description: 'WebGPU renderer, for createCanvas(w, h, WEBGPU)',
+        file: {
+          path: 'lib/p5-2.3.4/p5.webgpu.min.js',
+          source: 'p5-2/lib/p5.webgpu.min.js',
+          cdn: 'https://cdn.jsdelivr.net/npm/p5@2.3.4/lib/p5.webgpu.min.js'
+        },
+        prompt: 'The WEBGPU renderer is available: await createCanvas(w, h, WEBGPU) in an async setup(), and fall back to WEBGL when navigator.gpu is missing.'
+      }
+    ],
+    prompt: 'This is p5.js 2.x: there is no preload(). Make setup() async and await loadImage(), loadJSON(), loadFont() and other loaders in it. curveVertex() is now splineVertex().'
+  }
+}
+
+export const DEFAULT_LIBRARIES: LibrarySelection = { p5: 1, addons: ['p5.sound'] }
+
+/** The release and add-ons of a selection, ignoring add-ons it doesn't have. */
+export function selectedLibraries (selection: LibrarySelection = DEFAULT_LIBRARIES) {
+  const release = P5_RELEASES[selection.p5] ?? P5_RELEASES[DEFAULT_LIBRARIES.p5]
+  const addons = release.addons.filter(a => selection.addons.includes(a.id))
+  return { release, addons }
+}
+
+/** Library scripts to load, p5.js first. */
+export function libraryFiles (selection?: LibrarySelection) {
+  const { release, addons } = selectedLibraries(selection)
+  return [release.file, ...addons.map(a => a.file)]
+}
+
+/** Every file the app serves, for the build. */
+export const LIBRARY_FILES = Object.values(P5_RELEASES).flatMap(release => [
+  release.file,
+  ...release.addons.map(a => a.file)
+])
+
+/** Absolute URL of a library served by the app. */
+export function libraryUrl (file: LibraryFile) {
+  return new URL(file.path, document.baseURI).href
+}
+
+export function sameLibraries (a: LibrarySelection = DEFAULT_LIBRARIES, b: LibrarySelection = DEFAULT_LIBRARIES) {
+  return a.p5 === b.p5 && [...a.addons].sort().join() === [...b.addons].sort().join()
+}
+
+/** e.g. "p5.js 2.3.4 with p5.sound". */
+export function librariesLabel (selection?: LibrarySelection) {
+  const { release, addons } = selectedLibraries(selection)
+  const label = `p5.js ${release.version}`
+  return addons.length ? `${label} with ${addons.map(a => a.id).join(', ')}` : label
+}
+
+/** Tells the model which libraries the sketch runs with. */
+export function libraryPrompt (selection?: LibrarySelection) {
+  const { release, addons } = selectedLibraries(selection)
+  const lines = [
+    `The sketch runs with ${librariesLabel(selection)}. No other libraries are loaded.`,
+    release.prompt,
+    ...addons.flatMap(a => (a.prompt ? [a.prompt] : []))
+  ]
+  return lines.join('\n')
+}
+
+/**
+ * Runs in the sketch iframe right after p5.js. p5.js 2.x replaced
+ * registerMethod() with add-on lifecycle hooks; the preview scripts are
+ * written against 1.x, so this maps one onto the other.
+ */
+export const P5_COMPAT_SCRIPT = `(() => {
+  if (typeof p5 !== 'function' || p5.prototype.registerMethod || !p5.registerAddon) return;
+  const lifecycles = { init: 'presetup', pre: 'predraw', post: 'postdraw', remove: 'remove' };
+  p5.prototype.registerMethod = (name, method) => {
+    p5.registerAddon((p5, fn, hooks) => {
+      hooks[lifecycles[name]] = method;
+    });
+  };
+  p5.prototype._setProperty = function (name, value) {
+    this[name] = value;
+  };
+})();`
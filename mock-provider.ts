@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import {
+  CodeFenceSplitter,
+  ModelProvider,
+  ProviderChat,
+  StreamPart
+} from './provider'
+
+/** A canned model response. */
+export interface MockResponse {
+  thinking?: string
+  text: string // Markdown, usually with a ```javascript block
+}
+
+export interface MockOptions {
+  responses?: MockResponse[]
+  chunkSize?: number // Characters per streamed chunk
+  chunkDelayMs?: number // Pause between chunks, to look like streaming
+}
+
+const DEFAULT_RESPONSES: MockResponse[] = [
+  {
+    thinking: 'A bouncing ball is a good small example: position, velocity and edge checks.',
+    text: `This sketch bounces a ball around the canvas and reverses direction at the edges.
+
+\`\`\`javascript
+const mySketch = function (p) {
+  let x, y
+  let vx = 4
+  let vy = 3
+
+  p.setup = function () {
+    p.createCanvas(p.windowWidth, p.windowHeight)
+    x = p.width / 2
+    y = p.height / 2
+  }
+
+  p.draw = function () {
+    p.background(30)
+    x += vx
+    y += vy
+    if (x < 20 || x > p.width - 20) vx *= -1
+    if (y < 20 || y > p.height - 20) vy *= -1
+    p.fill(255, 200, 0)
+    p.circle(x, y, 40)
+  }
+
+  p.windowResized = function () {
+    p.resizeCanvas(p.windowWidth, p.windowHeight)
+  }
+}
+
+new p5(mySketch)
+\`\`\`
+
+Try changing \`vx\` and \`vy\` to alter the speed.`
+  },
+  {
+    text: `Here is a sketch with a slowly rotating square.
+
+\`\`\`javascript
+const mySketch = function (p) {
+  p.setup = function () {
+    p.createCanvas(p.windowWidth, p.windowHeight)
+    p.rectMode(p.CENTER)
+  }
+
+  p.draw = function () {
+    p.background(240)
+    p.translate(p.width / 2, p.height / 2)
+    p.rotate(p.frameCount * 0.01)
+    p.noFill()
+    p.stroke(40)
+    p.square(0, 0, 200)
+  }
+}
+
+new p5(mySketch)
+\`\`\``
+  }
+]
+
+function pause (ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Replays canned responses in order, cycling when they run out. Needs no
+ * network, and the same sequence of requests always gets the same answers.
+ */
+export function createMockProvider (options: MockOptions = {}): ModelProvider {
+  const responses = options.responses?.length ? options.responses : DEFAULT_RESPONSES
+  const chunkSize = options.chunkSize ?? 24
+  const chunkDelayMs = options.chunkDelayMs ?? 15
+  let next = 0
+
+  async function * stream (
+    response: MockResponse,
+    signal?: AbortSignal
+  ): AsyncIterable<StreamPart> {
+    if (response.thinking) {
+      yield { type: 'thinking', text: response.thinking }
+    }
+    const splitter = new CodeFenceSplitter()
+    for (let i = 0; i < response.text.length; i += chunkSize) {
+      if (chunkDelayMs) await pause(chunkDelayMs)
+      if (signal?.aborted) return
+      yield * splitter.push(response.text.slice(i, i + chunkSize))
+    }
+    yield * splitter.flush()
+  }
+
+  return {
+    name: 'mock',
+    createChat (): ProviderChat {
+      return {
+        sendMessageStream (_message: string, signal?: AbortSignal) {
+          const response = responses[next % responses.length]
+          next++
+          return stream(response, signal)
+        }
+      }
+    },
+    reset () {
+      next = 0
+    }
+  }
+}
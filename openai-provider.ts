@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import {
+  ChatConfig,
+  CodeFenceSplitter,
+  ModelProvider,
+  ProviderChat,
+  StreamPart
+} from './provider'
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string
+  model: string
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/** One server-sent event payload of a streamed chat completion. */
+interface CompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null
+      // Reasoning output, as sent by servers for thinking models
+      reasoning_content?: string | null
+      reasoning?: string | null
+    }
+  }>
+}
+
+/** Parse `data:` lines of a server-sent event stream. */
+async function * readEvents (body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+    for (const line of lines) {
+      const data = line.match(/^data:\s?(.*)$/)?.[1]?.trim()
+      if (!data) continue
+      if (data === '[DONE]') return
+      yield JSON.parse(data) as CompletionChunk
+    }
+  }
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API with streaming,
+ * e.g. a local Ollama, LM Studio, llama.cpp or vLLM server.
+ */
+export function createOpenAICompatibleProvider (
+  options: OpenAICompatibleOptions
+): ModelProvider {
+  const url = options.baseUrl.replace(/\/+$/, '') + '/chat/completions'
+
+  function createChat (config: ChatConfig): ProviderChat {
+    const generation = config.generation ?? {}
+    const history: ChatMessage[] = [
+      { role: 'system', content: config.systemInstruction },
+      ...config.history.map(turn => ({
+        role: turn.role === 'model' ? ('assistant' as const) : ('user' as const),
+        content: turn.text
+      }))
+    ]
+
+    async function * sendMessageStream (
+      message: string,
+      signal?: AbortSignal
+    ): AsyncIterable<StreamPart> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`
+
+      const res = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: generation.model || options.model,
+          temperature: generation.temperature,
+          messages: [...history, { role: 'user', content: message }],
+          stream: true
+        }),
+        signal
+      })
+      if (!res.ok || !res.body) {
+        throw new Error(`${res.status} ${res.statusText}: ${await res.text()}`)
+      }
+
+      const splitter = new CodeFenceSplitter()
+      for await (const chunk of readEvents(res.body)) {
+        const delta = chunk.choices?.[0]?.delta
+        const thinking = delta?.reasoning_content ?? delta?.reasoning
+        if (thinking) yield { type: 'thinking', text: thinking }
+        if (delta?.content) yield * splitter.push(delta.content)
+      }
+      yield * splitter.flush()
+    }
+
+    return { sendMessageStream }
+  }
+
+  return {
+    name: 'openai',
+    createChat,
+    reset () {}
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { parser } from '@lezer/javascript'
+import { describe, expect, it } from 'vitest'
+import { analyzeSketch, lookupClass, lookupMember } from './p5-api'
+
+const analyze = (source: string) => analyzeSketch(parser.parse(source), source)
+
+describe('p5 API data', () => {
+  it('lists the members of p5 1.11.3', () => {
+    for (const name of ['createCamera', 'spotLight', 'textureWrap', 'saveGif', 'beginClip', 'httpPost', 'nfs', 'debugMode']) {
+      expect(lookupMember(name)?.kind, name).toBe('function')
+    }
+    expect(lookupMember('PI')?.kind).toBe('constant')
+    expect(lookupMember('frameCount')?.kind).toBe('variable')
+    expect(lookupMember('setup')?.kind).toBe('event')
+    expect(lookupMember('loadSound')?.module).toBe('sound')
+    expect(lookupClass('Framebuffer')).toBeDefined()
+  })
+
+  it('leaves the p5 constructor and object prototype names out', () => {
+    expect(lookupMember('p5')).toBeUndefined()
+    expect(lookupMember('toString')).toBeUndefined()
+  })
+})
+
+describe('analyzeSketch', () => {
+  it('accepts real members', () => {
+    const info = analyze(`new p5((p) => {
+  p.setup = () => {
+    p.createCanvas(100, 100, p.WEBGL)
+    p.setCamera(p.createCamera())
+    p.specularColor(255)
+    p.imageLight(p.createFramebuffer())
+    p.print(p.hex(255), p.boolean('true'), p.char(65), p.match('a', /a/))
+  }
+})`)
+    expect(info.issues).toEqual([])
+  })
+
+  it('reports unknown members and bare p5 calls', () => {
+    const info = analyze(`new p5((p) => {
+  p.setup = () => {
+    createCanvas(100, 100)
+    p.circel(1, 2, 3)
+  }
+})`)
+    expect(info.issues.map(i => [i.kind, i.name])).toEqual([
+      ['unknown-member', 'circel'],
+      ['global-call', 'createCanvas']
+    ])
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { SyntaxNode, Tree } from '@lezer/common'
+import apiData from './p5-api.json'
+
+/** A member of the p5 instance (`p.something`). */
+export interface ApiMember {
+  kind: 'function' | 'variable' | 'constant' | 'event'
+  module: 'core' | 'sound'
+  signatures: string[] // Parameter lists, e.g. "(x, y, [z])"
+  description: string
+}
+
+/** A class exposed on the p5 global (`new p5.Something()`). */
+export interface ApiClass {
+  module: 'core' | 'sound'
+  signatures: string[]
+  description: string
+}
+
+/** Bundled description of the p5.js and p5.sound API, used offline. */
+export const P5_API = apiData as {
+  p5Version: string
+  members: Record<string, ApiMember>
+  classes: Record<string, ApiClass>
+}
+
+export function lookupMember (name: string): ApiMember | undefined {
+  return Object.prototype.hasOwnProperty.call(P5_API.members, name)
+    ? P5_API.members[name]
+    : undefined
+}
+
+export function lookupClass (name: string): ApiClass | undefined {
+  return Object.prototype.hasOwnProperty.call(P5_API.classes, name)
+    ? P5_API.classes[name]
+    : undefined
+}
+
+/** A p5 API misuse found in a sketch. Offsets are into the source. */
+export interface SketchIssue {
+  kind: 'unknown-member' | 'global-call'
+  from: number
+  to: number
+  name: string
+  message: string
+}
+
+/** What we know about how a sketch uses p5. */
+export interface SketchInfo {
+  /** Parameter names of sketch functions passed to `new p5(...)`, e.g. `p`. */
+  instanceNames: Set<string>
+  /** Members the sketch assigns itself, e.g. `p.setup` or `p.score`. */
+  assignedMembers: Set<string>
+  /** Names declared anywhere in the sketch (variables, functions, params). */
+  definedNames: Set<string>
+  issues: SketchIssue[]
+}
+
+/** First parameter name of a function node, if it has one. */
+function firstParam (fn: SyntaxNode, source: string): string | null {
+  const params = fn.getChild('ParamList')
+  const param = params?.getChild('VariableDefinition')
+  return param ? source.slice(param.from, param.to) : null
+}
+
+function isFunction (node: SyntaxNode | null) {
+  return (
+    !!node &&
+    (node.name === 'ArrowFunction' ||
+      node.name === 'FunctionExpression' ||
+      node.name === 'FunctionDeclaration')
+  )
+}
+
+/**
+ * Analyse a parsed JavaScript sketch: find the p5 instance parameter and
+ * report unknown `p.` members and p5 functions called without the instance
+ * prefix (a global-mode habit that breaks instance mode sketches).
+ */
+export function analyzeSketch (tree: Tree, source: string): SketchInfo {
+  const text = (node: SyntaxNode) => source.slice(node.from, node.to)
+  const sketchArgs: SyntaxNode[] = []
+  const functionsByName = new Map<string, SyntaxNode>()
+  const definedNames = new Set<string>()
+
+  tree.iterate({
+    enter: ref => {
+      const node = ref.node
+      if (node.name === 'VariableDefinition') {
+        definedNames.add(text(node))
+        // const sketch = function (p) { ... }
+        const init = node.nextSibling?.nextSibling ?? null
+        if (node.parent?.name === 'VariableDeclaration' && isFunction(init)) {
+          functionsByName.set(text(node), init!)
+        }
+      } else if (node.name === 'FunctionDeclaration') {
+        const name = node.getChild('VariableDefinition')
+        if (name) functionsByName.set(text(name), node)
+      } else if (node.name === 'NewExpression') {
+        const callee = node.getChild('VariableName')
+        const arg = node.getChild('ArgList')?.firstChild?.nextSibling
+        if (callee && text(callee) === 'p5' && arg) sketchArgs.push(arg)
+      }
+    }
+  })
+
+  const instanceNames = new Set<string>()
+  for (const arg of sketchArgs) {
+    const fn = isFunction(arg)
+      ? arg
+      : arg.name === 'VariableName'
+        ? functionsByName.get(text(arg))
+        : undefined
+    const param = fn && firstParam(fn, source)
+    if (param) instanceNames.add(param)
+  }
+
+  const assignedMembers = new Set<string>()
+  const memberRefs: SyntaxNode[] = []
+  const bareRefs: SyntaxNode[] = []
+
+  tree.iterate({
+    enter: ref => {
+      const node = ref.node
+      if (node.name === 'MemberExpression') {
+        const object = node.firstChild
+        const property = node.getChild('PropertyName')
+        if (object?.name !== 'VariableName' || !property) return
+        if (!instanceNames.has(text(object))) return
+        const parent = node.parent
+        if (parent?.name === 'AssignmentExpression' && parent.firstChild?.from === node.from) {
+          assignedMembers.add(text(property))
+        } else {
+          memberRefs.push(property)
+        }
+      } else if (node.name === 'VariableName') {
+        bareRefs.push(node)
+      }
+    }
+  })
+
+  const issues: SketchIssue[] = []
+  const instance = [...instanceNames][0]
+
+  for (const property of memberRefs) {
+    const name = text(property)
+    if (lookupMember(name) || assignedMembers.has(name)) continue
+    issues.push({
+      kind: 'unknown-member',
+      from: property.from,
+      to: property.to,
+      name,
+      message: `"${name}" is not part of the p5.js or p5.sound API.`
+    })
+  }
+
+  if (instance) {
+    for (const node of bareRefs) {
+      const name = text(node)
+      const member = lookupMember(name)
+      if (!member || member.kind === 'event' || definedNames.has(name)) continue
+      issues.push({
+        kind: 'global-call',
+        from: node.from,
+        to: node.to,
+        name,
+        message: `"${name}" is a p5 ${member.kind}; in instance mode use "${instance}.${name}".`
+      })
+    }
+  }
+
+  return { instanceNames, assignedMembers, definedNames, issues }
+}
@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import {
+  Completion,
+  CompletionContext,
+  CompletionResult
+} from '@codemirror/autocomplete'
+import { javascriptLanguage } from '@codemirror/lang-javascript'
+import { ensureSyntaxTree, syntaxTree } from '@codemirror/language'
+import { Diagnostic, linter } from '@codemirror/lint'
+import { EditorState, Extension, Facet, StateField } from '@codemirror/state'
+import { EditorView, hoverTooltip, showTooltip, Tooltip } from '@codemirror/view'
+import type { SyntaxNode } from '@lezer/common'
+import { DEFAULT_LIBRARIES, LibrarySelection } from './libraries'
+import {
+  analyzeSketch,
+  ApiClass,
+  ApiMember,
+  lookupClass,
+  lookupMember,
+  P5_API,
+  SketchInfo
+} from './p5-api'
+import { apiFinding } from './validate'
+
+/** The libraries the sketch runs with, which decide how lint findings are reported. */
+export const p5Libraries = Facet.define<LibrarySelection, LibrarySelection>({
+  combine: values => values[0] ?? DEFAULT_LIBRARIES
+})
+
+/** Instance name assumed before a `new p5(...)` call has been written. */
+const DEFAULT_INSTANCE = 'p'
+
+function analyze (state: EditorState): SketchInfo {
+  const tree = ensureSyntaxTree(state, state.doc.length, 50) ?? syntaxTree(state)
+  return analyzeSketch(tree, state.doc.toString())
+}
+
+/**
+ * The analysis of the current document, shared by completion, hover,
+ * signature help and lint. It is redone when the document changes, or when
+ * the parser catches up on a document it hadn't finished.
+ */
+const sketchInfoField = StateField.define<SketchInfo>({
+  create: analyze,
+  update (info, tr) {
+    return tr.docChanged || syntaxTree(tr.state) !== syntaxTree(tr.startState)
+      ? analyze(tr.state)
+      : info
+  }
+})
+
+function sketchInfo (state: EditorState): SketchInfo {
+  return state.field(sketchInfoField)
+}
+
+function isInstance (info: SketchInfo, name: string) {
+  return info.instanceNames.size
+    ? info.instanceNames.has(name)
+    : name === DEFAULT_INSTANCE
+}
+
+const COMPLETION_TYPES: Record<ApiMember['kind'], string> = {
+  function: 'function',
+  variable: 'variable',
+  constant: 'constant',
+  event: 'method'
+}
+
+function docInfo (entry: ApiMember | ApiClass) {
+  const soundNote = entry.module === 'sound' ? ' (p5.sound)' : ''
+  return entry.description + soundNote
+}
+
+/** Build the DOM for a hover or signature tooltip. */
+function docElement (
+  prefix: string,
+  name: string,
+  entry: ApiMember | ApiClass,
+  activeParam = -1
+) {
+  const dom = document.createElement('div')
+  dom.className = 'cm-p5-doc'
+  const signatures = entry.signatures.length ? entry.signatures : ['']
+  for (const signature of signatures) {
+    const code = document.createElement('code')
+    code.append(prefix + name)
+    const params = signature.replace(/^\(|\)$/g, '').split(/,\s*/)
+    if (signature) {
+      code.append('(')
+      params.forEach((param, i) => {
+        if (i > 0) code.append(', ')
+        if (i === activeParam) {
+          const b = document.createElement('b')
+          b.textContent = param
+          code.append(b)
+        } else {
+          code.append(param)
+        }
+      })
+      code.append(')')
+    }
+    dom.append(code)
+  }
+  const description = document.createElement('p')
+  description.textContent = docInfo(entry)
+  dom.append(description)
+  return dom
+}
+
+/** Completions after `p.` (instance members) and `p5.` (classes). */
+function p5Completions (context: CompletionContext): CompletionResult | null {
+  const before = context.matchBefore(/[\w$]+\.[\w$]*$/)
+  if (!before) return null
+  const [object] = before.text.split('.')
+  const from = before.from + object.length + 1
+
+  if (object === 'p5') {
+    return {
+      from,
+      validFor: /^[\w$]*$/,
+      options: Object.entries(P5_API.classes).map(([name, cls]) => ({
+        label: name,
+        type: 'class',
+        detail: cls.signatures[0],
+        info: docInfo(cls)
+      }))
+    }
+  }
+
+  const info = sketchInfo(context.state)
+  if (!isInstance(info, object)) return null
+
+  const options: Completion[] = Object.entries(P5_API.members).map(
+    ([name, member]) => ({
+      label: name,
+      type: COMPLETION_TYPES[member.kind],
+      detail: member.signatures[0],
+      info: docInfo(member),
+      boost: member.module === 'core' ? 0 : -1
+    })
+  )
+  for (const name of info.assignedMembers) {
+    if (!lookupMember(name)) options.push({ label: name, type: 'property', detail: 'sketch' })
+  }
+  return { from, options, validFor: /^[\w$]*$/ }
+}
+
+/** Resolve the p5 API entry a property or identifier node refers to. */
+function apiEntryAt (state: EditorState, node: SyntaxNode, info: SketchInfo) {
+  const text = (n: SyntaxNode) => state.doc.sliceString(n.from, n.to)
+  if (node.name === 'PropertyName' && node.parent?.name === 'MemberExpression') {
+    const object = node.parent.firstChild
+    if (object?.name !== 'VariableName') return null
+    const objectName = text(object)
+    const name = text(node)
+    if (objectName === 'p5') {
+      const cls = lookupClass(name)
+      return cls ? { prefix: 'p5.', name, entry: cls as ApiMember | ApiClass } : null
+    }
+    const member = isInstance(info, objectName) && lookupMember(name)
+    return member ? { prefix: objectName + '.', name, entry: member } : null
+  }
+  if (node.name === 'VariableName') {
+    const name = text(node)
+    const member = lookupMember(name)
+    return member && !info.definedNames.has(name)
+      ? { prefix: '', name, entry: member as ApiMember | ApiClass }
+      : null
+  }
+  return null
+}
+
+const p5Hover = hoverTooltip((view, pos, side) => {
+  const node = syntaxTree(view.state).resolveInner(pos, side)
+  const found = apiEntryAt(view.state, node, sketchInfo(view.state))
+  if (!found) return null
+  return {
+    pos: node.from,
+    end: node.to,
+    above: true,
+    create: () => ({ dom: docElement(found.prefix, found.name, found.entry) })
+  }
+})
+
+/** Signature help: show the parameters of the p5 call the cursor is in. */
+function signatureTooltip (state: EditorState): Tooltip | null {
+  const selection = state.selection.main
+  if (!selection.empty) return null
+  const pos = selection.head
+
+  let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, -1)
+  while (node && node.name !== 'ArgList') node = node.parent
+  if (!node || pos <= node.from || node.parent?.name !== 'CallExpression') return null
+
+  const callee = node.parent.firstChild
+  const property = callee?.name === 'MemberExpression' ? callee.getChild('PropertyName') : callee
+  if (!property) return null
+  const found = apiEntryAt(state, property, sketchInfo(state))
+  if (!found || !found.entry.signatures.length) return null
+
+  let activeParam = 0
+  for (let child = node.firstChild; child && child.to <= pos; child = child.nextSibling) {
+    if (child.name === ',') activeParam++
+  }
+  return {
+    pos: node.from,
+    above: true,
+    strictSide: true,
+    create: () => ({
+      dom: docElement(found.prefix, found.name, found.entry, activeParam)
+    })
+  }
+}
+
+const signatureHelp = StateField.define<Tooltip | null>({
+  create: signatureTooltip,
+  update (tooltip, tr) {
+    return tr.docChanged || tr.selection ? signatureTooltip(tr.state) : tooltip
+  },
+  provide: field => showTooltip.from(field)
+})
+
+/**
+ * Flag unknown `p.` members and p5 calls missing the instance prefix, the way
+ * validateSketch reports them for the selected libraries.
+ */
+const p5Lint = linter(view => {
+  const info = sketchInfo(view.state)
+  const libraries = view.state.facet(p5Libraries)
+  const instance = [...info.instanceNames][0]
+  return info.issues.map(
+    (issue): Diagnostic => ({
+      from: issue.from,
+      to: issue.to,
+      ...apiFinding(issue, libraries),
+      source: 'p5',
+      actions:
+        issue.kind === 'global-call' && instance
+          ? [
+              {
+                name: `Use ${instance}.${issue.name}`,
+                apply (view, from, to) {
+                  view.dispatch({
+                    changes: { from, to, insert: `${instance}.${issue.name}` }
+                  })
+                }
+              }
+            ]
+          : []
+    })
+  )
+}, {
+  needsRefresh: update => update.startState.facet(p5Libraries) !== update.state.facet(p5Libraries)
+})
+
+const docTheme = EditorView.baseTheme({
+  '.cm-p5-doc': {
+    maxWidth: '420px',
+    padding: '4px 8px',
+    fontSize: '13px'
+  },
+  '.cm-p5-doc code': {
+    display: 'block',
+    fontFamily: 'monospace'
+  },
+  '.cm-p5-doc p': {
+    marginTop: '4px',
+    opacity: '0.85'
+  }
+})
+
+/** p5.js editor support: completions, hover docs, signature help and lint. */
+export function p5Support (): Extension {
+  return [
+    sketchInfoField,
+    javascriptLanguage.data.of({ autocomplete: p5Completions }),
+    p5Hover,
+    signatureHelp,
+    p5Lint,
+    docTheme
+  ]
+}
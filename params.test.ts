@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import { bakeParams, findParams, writableParamCode } from './params'
+
+describe('findParams', () => {
+  it('finds annotated variables and params object properties', () => {
+    const params = findParams(`const params = {
+  speed: 2, // @param 0 10 0.5
+  color: '#ff0000',
+  trails: true
+}
+let count = 12 // @param 1 50
+new p5((p) => {})`)
+    expect(params.map(p => [p.name, p.kind, p.value])).toEqual([
+      ['params.speed', 'number', 2],
+      ['params.color', 'color', '#ff0000'],
+      ['params.trails', 'boolean', true],
+      ['count', 'number', 12]
+    ])
+    expect(params[0]).toMatchObject({ min: 0, max: 10, step: 0.5 })
+    expect(params[3]).toMatchObject({ min: 1, max: 50 })
+  })
+
+  it('finds variables in the sketch function, inline or by name', () => {
+    const inline = findParams(`new p5((p) => {
+  // @param 10 100
+  const size = 40
+})`)
+    expect(inline.map(p => [p.name, p.value])).toEqual([['size', 40]])
+    expect(inline[0].scopeEnd).toBeDefined()
+
+    const named = findParams(`function sketch (p) {
+  let speed = 3 // @param
+}
+new p5(sketch)`)
+    expect(named.map(p => p.name)).toEqual(['speed'])
+  })
+
+  it('ignores JSDoc @param tags', () => {
+    const params = findParams(`/**
+ * @param {number} size
+ */
+let size = 40
+// @param {number} count
+let count = 3
+new p5((p) => {})`)
+    expect(params).toEqual([])
+  })
+
+  it('prefers a sketch function variable over the top-level one it shadows', () => {
+    const code = `let size = 10 // @param
+const params = { speed: 1 }
+new p5((p) => {
+  let size = 40 // @param
+  const params = { scale: 2 }
+})`
+    const params = findParams(code)
+    expect(params.map(p => [p.name, p.value])).toEqual([['size', 40], ['params.scale', 2]])
+    expect(params.every(p => p.scopeEnd !== undefined)).toBe(true)
+  })
+})
+
+describe('writableParamCode', () => {
+  it('keeps line numbers while making parameters writable', () => {
+    const code = `new p5((p) => {
+  const size = 40 // @param
+})`
+    const result = writableParamCode(code, findParams(code))
+    expect(result.split('\n')).toHaveLength(3)
+    expect(result).toContain('let   size = 40')
+    expect(result).toContain('playgroundParams.register({ "size": (value) => { size = value; } });})')
+  })
+})
+
+describe('bakeParams', () => {
+  it('writes values back as literals', () => {
+    const code = `const params = { speed: 2, color: '#ff0000' }
+new p5((p) => {
+  let size = 40 // @param
+})`
+    expect(bakeParams(code, { 'params.speed': 2.5, 'params.color': '#00ff00', size: 12 })).toBe(`const params = { speed: 2.5, color: '#00ff00' }
+new p5((p) => {
+  let size = 12 // @param
+})`)
+  })
+})
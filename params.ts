@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { SyntaxNode } from '@lezer/common'
+import { parser } from '@lezer/javascript'
+
+export type ParamKind = 'number' | 'color' | 'boolean'
+export type ParamValue = number | string | boolean
+
+/** A sketch value that can be tweaked from the parameter panel. */
+export interface SketchParam {
+  name: string // Variable name, or "params.key" for a property of the params object
+  kind: ParamKind
+  value: ParamValue
+  min: number // Slider range, for numbers
+  max: number
+  step: number
+  from: number // Position of the value's literal in the code
+  to: number
+  constFrom?: number // A `const` keyword to relax so the value can change
+  scopeEnd?: number // Closing brace of the sketch function it is declared in; unset at top level
+}
+
+/** Name of the object whose properties are all parameters. */
+export const PARAMS_OBJECT = 'params'
+
+// A `// @param` line comment, not a JSDoc `@param {type} name` tag
+const ANNOTATION_RE = /^\/\/\s*@param\b(?!\s*\{)(.*)$/
+const COLOR_RE = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i
+
+function lineOf (code: string, offset: number) {
+  let line = 0
+  for (let i = code.indexOf('\n'); i >= 0 && i < offset; i = code.indexOf('\n', i + 1)) line++
+  return line
+}
+
+/** The value of a literal node, if it is one a parameter can have. */
+function literal (code: string, node: SyntaxNode): { kind: ParamKind; value: ParamValue } | null {
+  const text = code.slice(node.from, node.to)
+  if (node.name === 'Number' || (node.name === 'UnaryExpression' && /^[-+]\s*[\d.]/.test(text))) {
+    const value = Number(text.replace(/\s+/g, '').replace(/_/g, ''))
+    return Number.isFinite(value) ? { kind: 'number', value } : null
+  }
+  if (node.name === 'BooleanLiteral') return { kind: 'boolean', value: text === 'true' }
+  if (node.name === 'String') {
+    const value = text.slice(1, -1)
+    return COLOR_RE.test(value) ? { kind: 'color', value } : null
+  }
+  return null
+}
+
+/** Slider range: from the annotation, else around the value. */
+function range (value: number, args: number[]) {
+  let [min, max, step] = args
+  if (min === undefined || max === undefined || !(max > min)) {
+    min = value < 0 ? value * 2 : 0
+    max = value > 0 ? value * 2 : value < 0 ? 0 : 1
+  }
+  if (!(step > 0)) {
+    step = Number.isInteger(value) && Number.isInteger(min) && Number.isInteger(max) && max - min >= 10
+      ? 1
+      : Number(((max - min) / 100).toPrecision(1))
+  }
+  return { min, max, step }
+}
+
+/** Function nodes among the children of `node`. */
+function functionOf (node: SyntaxNode | null) {
+  return node && (node.name === 'ArrowFunction' || node.name === 'FunctionExpression') ? node : null
+}
+
+/**
+ * Bodies of the instance mode sketch functions: functions passed to
+ * `new p5(...)`, directly or by the name of a top-level function or variable.
+ */
+function sketchBodies (code: string, top: SyntaxNode): SyntaxNode[] {
+  const named = new Map<string, SyntaxNode>()
+  for (let node = top.firstChild; node; node = node.nextSibling) {
+    const name = node.getChild('VariableDefinition')
+    if (!name) continue
+    const fn = node.name === 'FunctionDeclaration'
+      ? node
+      : node.name === 'VariableDeclaration' && name.nextSibling?.name === 'Equals'
+        ? functionOf(name.nextSibling.nextSibling)
+        : null
+    if (fn) named.set(code.slice(name.from, name.to), fn)
+  }
+  const bodies: SyntaxNode[] = []
+  top.cursor().iterate(ref => {
+    if (ref.name !== 'NewExpression') return
+    const callee = ref.node.getChild('VariableName')
+    if (!callee || code.slice(callee.from, callee.to) !== 'p5') return
+    const arg = ref.node.getChild('ArgList')?.firstChild?.nextSibling ?? null
+    const fn = functionOf(arg) ?? (arg?.name === 'VariableName' ? named.get(code.slice(arg.from, arg.to)) : null)
+    const body = fn?.getChild('Block')
+    if (body && !bodies.some(b => b.from === body.from)) bodies.push(body)
+  })
+  return bodies
+}
+
+/**
+ * Find the parameters of a sketch: variables annotated with a
+ * `// @param min max step` comment at the end of their line or on the line
+ * before (range and step are optional), and every property of a `params`
+ * object. Variables count at the top level and in the body of an instance
+ * mode sketch function, where they shadow top-level ones. Numbers, booleans and "#rrggbb" colors are supported.
+ */
+export function findParams (code: string): SketchParam[] {
+  const tree = parser.parse(code)
+  const annotations = new Map<number, { args: number[]; ownLine: boolean }>()
+  tree.iterate({
+    enter: ref => {
+      if (ref.name !== 'LineComment') return
+      const match = code.slice(ref.from, ref.to).match(ANNOTATION_RE)
+      if (!match) return
+      const lineStart = code.lastIndexOf('\n', ref.from - 1) + 1
+      annotations.set(lineOf(code, ref.from), {
+        args: match[1].trim().split(/\s+/).filter(Boolean).map(Number).filter(Number.isFinite),
+        ownLine: code.slice(lineStart, ref.from).trim() === ''
+      })
+    }
+  })
+  // The annotation for a value on its own line, or on the line before
+  const annotation = (offset: number) => {
+    const line = lineOf(code, offset)
+    const sameLine = annotations.get(line)
+    if (sameLine && !sameLine.ownLine) return sameLine
+    const before = annotations.get(line - 1)
+    return before?.ownLine ? before : null
+  }
+
+  const params: SketchParam[] = []
+  const add = (name: string, value: SyntaxNode, args: number[], scopeEnd?: number, constFrom?: number) => {
+    if (params.some(p => p.name === name)) return // Another sketch function has one
+    const found = literal(code, value)
+    if (!found) return
+    const { min, max, step } = range(typeof found.value === 'number' ? found.value : 0, args)
+    params.push({ name, ...found, min, max, step, from: value.from, to: value.to, constFrom, scopeEnd })
+  }
+
+  // Names declared in sketch functions, which hide top-level ones from the sketch
+  const shadowed = new Set<string>()
+  const scan = (scope: SyntaxNode, scopeEnd?: number) => {
+    for (let node = scope.firstChild; node; node = node.nextSibling) {
+      if (node.name !== 'VariableDeclaration') continue
+      const keyword = node.firstChild
+      const constFrom = keyword?.name === 'const' ? keyword.from : undefined
+      for (let child = node.firstChild; child; child = child.nextSibling) {
+        if (child.name !== 'VariableDefinition') continue
+        const name = code.slice(child.from, child.to)
+        if (scopeEnd !== undefined) shadowed.add(name)
+        else if (shadowed.has(name)) continue
+        const value = child.nextSibling?.name === 'Equals' ? child.nextSibling.nextSibling : null
+        if (!value) continue
+        if (name === PARAMS_OBJECT && value.name === 'ObjectExpression') {
+          for (const property of value.getChildren('Property')) {
+            const key = property.getChild('PropertyDefinition')
+            const propertyValue = property.lastChild
+            if (!key || !propertyValue || propertyValue === key) continue
+            add(`${name}.${code.slice(key.from, key.to)}`, propertyValue, annotation(property.from)?.args ?? [], scopeEnd)
+          }
+        } else {
+          const found = annotation(child.from)
+          if (found) add(name, value, found.args, scopeEnd, constFrom)
+        }
+      }
+    }
+  }
+  for (const body of sketchBodies(code, tree.topNode)) scan(body, body.to - 1)
+  scan(tree.topNode)
+  return params.sort((a, b) => a.from - b.from)
+}
+
+/** Registers setters for `params` with the hook script. */
+function registration (params: SketchParam[]) {
+  const setters = params.map(p => `${JSON.stringify(p.name)}: (value) => { ${p.name} = value; }`)
+  return `;playgroundParams.register({ ${setters.join(', ')} });`
+}
+
+/**
+ * The code to run with parameters that can change: annotated `const`
+ * variables become `let`, padded so positions and line numbers stay put, and
+ * each scope registers setters for its parameters (see paramHookScript). A
+ * sketch function registers on the line of its closing brace; top-level
+ * parameters register after the code.
+ */
+export function writableParamCode (code: string, params: SketchParam[]) {
+  const edits = new Map<number, (result: string) => string>()
+  for (const p of params) {
+    const from = p.constFrom
+    if (from !== undefined) edits.set(from, result => result.slice(0, from) + 'let  ' + result.slice(from + 5))
+  }
+  for (const end of new Set(params.flatMap(p => (p.scopeEnd === undefined ? [] : [p.scopeEnd])))) {
+    const scoped = registration(params.filter(p => p.scopeEnd === end))
+    edits.set(end, result => result.slice(0, end) + scoped + result.slice(end))
+  }
+  const result = [...edits.keys()].sort((a, b) => b - a).reduce((result, at) => edits.get(at)!(result), code)
+  const topLevel = params.filter(p => p.scopeEnd === undefined)
+  return topLevel.length ? result + '\n' + registration(topLevel) : result
+}
+
+/**
+ * Runs before the sketch code when it has parameters. Scopes register their
+ * setters with `playgroundParams`, which applies `overrides` right away, before
+ * the sketch starts, and calls them on 'set-param' commands from the
+ * playground. Sketches that don't loop are redrawn on changes.
+ */
+export function paramHookScript (overrides: Record<string, ParamValue>) {
+  return `window.playgroundParams = (() => {
+  const setters = {};
+  const overrides = ${JSON.stringify(overrides).replace(/</g, '\\u003c')};
+  window.playgroundPreview.on('set-param', (data) => {
+    if (!setters[data.name]) return;
+    setters[data.name](data.value);
+    const instance = window.theSketchInstance || (window.p5 && window.p5.instance);
+    if (instance && instance.isLooping && !instance.isLooping()) instance.redraw();
+  });
+  return {
+    register (scope) {
+      for (const name in scope) {
+        setters[name] = scope[name];
+        if (name in overrides) scope[name](overrides[name]);
+      }
+    }
+  };
+})();`
+}
+
+function formatValue (param: SketchParam, value: ParamValue, original: string) {
+  if (param.kind === 'number') return String(Number(Number(value).toPrecision(12)))
+  if (param.kind === 'boolean') return String(value)
+  const quote = original[0]
+  return quote + value + quote
+}
+
+/** Write parameter values back into the code as its literals. */
+export function bakeParams (code: string, values: Record<string, ParamValue>) {
+  return findParams(code)
+    .filter(p => p.name in values)
+    .sort((a, b) => b.from - a.from)
+    .reduce(
+      (result, p) =>
+        result.slice(0, p.from) +
+        formatValue(p, values[p.name], result.slice(p.from, p.to)) +
+        result.slice(p.to),
+      code
+    )
+}
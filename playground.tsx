@@ -12,6 +12,128 @@ import { map } from 'lit/directives/map.js'
 import { unsafeHTML } from 'lit/directives/unsafe-html.js'
 import { Marked } from 'marked'
 import { markedHighlight } from 'marked-highlight'
+import {
+  createSession,
+  deleteSession,
+  getActiveSessionId,
+  listSessions,
+  loadSession,
+  saveSession,
+  Session,
+  SessionSummary,
+  setActiveSessionId
+} from './sessions'
+import {
+  ancestry,
+  CodeVersion,
+  layoutVersions,
+  VersionAuthor,
+  versionTitle
+} from './versions'
+import {
+  hasErrors,
+  SketchDiagnostic,
+  validateSketch,
+  validationPrompt
+} from './validate'
+import { exportProject } from './export'
+import { importProject, importSummary, renameAssetReferences } from './import'
+import {
+  MAX_SEEK_FRAME,
+  PreviewStats,
+  previewControlScript
+} from './preview-controls'
+import {
+  PREVIEW_PROTOCOL_SCRIPT,
+  PreviewChannel,
+  RecorderEvent,
+  SketchState
+} from './preview-protocol'
+import { newSeed, seedScript } from './seed'
+import {
+  DEFAULT_LIBRARIES,
+  LibrarySelection,
+  libraryFiles,
+  libraryUrl,
+  P5_COMPAT_SCRIPT,
+  P5_RELEASES,
+  P5Major,
+  sameLibraries
+} from './libraries'
+import {
+  bakeParams,
+  findParams,
+  ParamValue,
+  paramHookScript,
+  SketchParam,
+  writableParamCode
+} from './params'
+import {
+  addCapturedFrame,
+  captureSettings,
+  FrameCapture,
+  finishFrameCapture,
+  MAX_RECORD_FRAMES,
+  RECORD_FORMAT_LABELS,
+  RecordFormat,
+  RecordOptions,
+  recorderScript,
+  startFrameCapture
+} from './recorder'
+import {
+  Asset,
+  assetKind,
+  assetPath,
+  assetResolverScript,
+  copySessionAssets,
+  deleteAsset,
+  formatSize,
+  listAssets,
+  saveAsset,
+  uniqueAssetName
+} from './assets'
+import {
+  assembleProject,
+  INDEX_FILE,
+  isValidFileName,
+  MAIN_FILE,
+  mergeFiles,
+  newFileContent,
+  ProjectFile,
+  sameFiles
+} from './project'
+import {
+  AutoFixAttempt,
+  AutoFixOutcome,
+  AutoFixRun,
+  AUTO_FIX_SETTLE_MS,
+  autoFixSummary,
+  getAutoFixEnabled,
+  setAutoFixEnabled,
+  stopReason
+} from './autofix'
+import {
+  appendEntry,
+  CodeRange,
+  ConsoleEntry,
+  ConsoleLevel,
+  CONSOLE_HOOK_SCRIPT,
+  sketchLocation,
+  translateStack
+} from './sketch-console'
+import {
+  builtInPresets,
+  DEFAULT_PRESET_ID,
+  loadSettings,
+  saveSettings,
+  Settings,
+  SUGGESTED_MODELS,
+  SystemPreset
+} from './settings'
+import type { GenerationOptions } from './provider'
+import type { CodeEditor } from './code-editor'
+import './code-editor'
+import './diff-view'
 
 /** Markdown formatting function with syntax hilighting */
 export const marked = new Marked(
@@ -61,11 +183,59 @@ const ICON_LOAD = html`<svg
   />
 </svg>`
 const ICON_SNAPSHOT = html`<svg xmlns="http://www.w3.org/2000/svg" height="16px" viewBox="0 -960 960 960" width="16px" fill="currentColor"><path d="M200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h560q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H200Zm0-80h560v-560H200v560Zm80-80h400q17 0 28.5-11.5T720-320v-320q0-17-11.5-28.5T680-680H280q-17 0-28.5 11.5T240-640v320q0 17 11.5 28.5T280-280Zm80-360h240q17 0 28.5-11.5T640-680v-80q0-17-11.5-28.5T600-800H360q-17 0-28.5 11.5T320-760v80q0 17 11.5 28.5T360-640ZM200-200v-560 560Z"/></svg>`;
+const ICON_RECORD = html`<svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor"><path d="M480-280q83 0 141.5-58.5T680-480q0-83-58.5-141.5T480-680q-83 0-141.5 58.5T280-480q0 83 58.5 141.5T480-280Zm0 200q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Z"/></svg>`;
+const ICON_DICE = html`<svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor"><path d="M300-240q25 0 42.5-17.5T360-300q0-25-17.5-42.5T300-360q-25 0-42.5 17.5T240-300q0 25 17.5 42.5T300-240Zm0-360q25 0 42.5-17.5T360-660q0-25-17.5-42.5T300-720q-25 0-42.5 17.5T240-660q0 25 17.5 42.5T300-600Zm180 180q25 0 42.5-17.5T540-480q0-25-17.5-42.5T480-540q-25 0-42.5 17.5T420-480q0 25 17.5 42.5T480-420Zm180 180q25 0 42.5-17.5T720-300q0-25-17.5-42.5T660-360q-25 0-42.5 17.5T600-300q0 25 17.5 42.5T660-240Zm0-360q25 0 42.5-17.5T720-660q0-25-17.5-42.5T660-720q-25 0-42.5 17.5T600-660q0 25 17.5 42.5T660-600ZM200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h560q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H200Zm0-80h560v-560H200v560Zm0-560v560-560Z"/></svg>`;
+const ICON_PIN = html`<svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor"><path d="m640-480 80 80v80H520v240l-40 40-40-40v-240H240v-80l80-80v-280h-40v-80h400v80h-40v280Zm-286 80h252l-46-46v-314H400v314l-46 46Zm126 0Z"/></svg>`;
+const ICON_UPLOAD = html`<svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor"><path d="M440-320v-326L336-542l-56-58 200-200 200 200-56 58-104-104v326h-80ZM240-160q-33 0-56.5-23.5T160-240v-120h80v120h480v-120h80v120q0 33-23.5 56.5T720-160H240Z"/></svg>`;
 const ICON_DOWNLOAD = html`<svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor"><path d="M480-320 280-520l56-58 104 104v-326h80v326l104-104 56 58-200 200ZM240-160q-33 0-56.5-23.5T160-240v-120h80v120h480v-120h80v120q0 33-23.5 56.5T720-160H240Z"/></svg>`;
 
-const p5jsCdnUrl =
-  'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.11.3/p5.min.js'
-const p5soundCdnUrl = 'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.11.3/addons/p5.sound.min.js'
+/** Diff source id standing for the code currently in the editor. */
+const DIFF_EDITOR = 'editor'
+
+/** Placeholder for the sketch code in the preview document template. */
+const SKETCH_CODE_MARKER = '/* SKETCH CODE */'
+
+/** Console panel level filters; 'log' also covers info and debug output. */
+type ConsoleFilter = 'all' | 'error' | 'warn' | 'log'
+
+/** Code run in the preview, with the other files of its project. */
+interface PreviewRun {
+  code: string
+  files: ProjectFile[]
+  seed: number
+}
+
+/** How to start a preview run. */
+interface RunOptions {
+  capture?: RecordOptions // Step through frames for a GIF or PNG recording
+  seekFrame?: number // Fast-forward to this frame and pause
+  seed?: number // Defaults to the current seed
+}
+
+function sameRun (a: PreviewRun | null, b: PreviewRun) {
+  return a !== null && a.code === b.code && a.seed === b.seed && sameFiles(a.files, b.files)
+}
+
+/** Local date and time for file names, e.g. "20250102-130405". */
+function fileTimestamp (date = new Date()) {
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  )
+}
+
+function downloadBlob (blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.setAttribute('href', url)
+  link.setAttribute('download', filename)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
 
 /**
  * Chat state enum to manage the current state of the chat interface.
@@ -82,7 +252,12 @@ export enum ChatState {
  */
 enum ChatTab {
   GEMINI,
-  CODE
+  CODE,
+  VERSIONS,
+  SESSIONS,
+  ASSETS,
+  CONSOLE,
+  SETTINGS
 }
 
 /**
@@ -95,12 +270,18 @@ export enum ChatRole {
 }
 
 /** Interface for a message object */
-interface Message {
+export interface Message {
   id: string
-  role: 'user' | 'assistant' | 'system-ask' | 'error' | 'manual-snapshot'
+  role: 'user' | 'assistant' | 'system-ask' | 'error' | 'manual-snapshot' | 'auto-fix' | 'import'
   text: string // Rendered HTML content
+  rawText?: string // Raw markdown response from the model (optional)
   thinkingText?: string // Rendered HTML thinking content (optional)
   code?: string // Raw p5.js code string (optional)
+  versionId?: string // Code version carried by this message (optional)
+  diagnostics?: SketchDiagnostic[] // Problems found when validating the code (optional)
+  errorStack?: string // Stack trace of a runtime error, in sketch line numbers (optional)
+  errorLine?: number // Sketch line a runtime error came from (optional)
+  errorColumn?: number
   isThinkingOpen?: boolean // State for the thinking details
 }
 
@@ -111,45 +292,97 @@ interface Message {
 export class Playground extends LitElement {
   @query('#anchor') anchor
   @query('#reloadTooltip') reloadTooltip
-  private readonly codeSyntax = document.createElement('div')
+  @query('gdm-code-editor') codeEditor?: CodeEditor
+  @query('#importFile') importInput!: HTMLInputElement
 
   @state() chatState = ChatState.IDLE
   @state() isRunning = true
   @state() selectedChatTab = ChatTab.GEMINI
   @state() inputMessage = ''
-  @state() code = ''
+  @state() code = '' // The main sketch, sketch.js
+  @state() files: ProjectFile[] = [] // The other files of the project
+  @state() activeFile = MAIN_FILE // File shown in the Code tab
   @state() messages: Message[] = []
   @state() codeHasChanged = true
   @state() codeNeedsReload = false
-  @state() activeCodeVersionId: string | null = null // Track which version is loaded
+  @state() versions: CodeVersion[] = []
+  @state() activeVersionId: string | null = null // Version the editor code is based on
+  @state() diffFrom: string | null = null // Version id or DIFF_EDITOR; null hides the diff panel
+  @state() diffTo: string | null = null
+  @state() sessions: SessionSummary[] = []
+  @state() sessionId: string | null = null
+  @state() sessionName = ''
+  @state() autoFix = getAutoFixEnabled() // Fix runtime errors without asking
+  @state() consoleEntries: ConsoleEntry[] = []
+  @state() consoleLevel: ConsoleFilter = 'all'
+  @state() consoleSearch = ''
+  @state() errorLine: number | null = null // Sketch line of the last runtime error
+  @state() settings: Settings = loadSettings()
+  @state() presetDraft: string | null = null // Unsaved edits to the selected preset
+  @state() assets: Asset[] = [] // Files the session's sketches can load
+  @state() assetDragOver = false
+  @state() exporting = false // Building a ZIP for download
+  @state() importing = false
+  @state() recording: { format: RecordFormat; frame: number; frames: number } | null = null
+  @state() sketchParams: SketchParam[] = [] // Parameters of the running sketch
+  @state() paramValues: Record<string, ParamValue> = {} // Values changed in the panel
+  @state() paramsOpen = true
+  @state() previewStats: PreviewStats | null = null
+  @state() targetFrameRate: number | null = null // Overrides the sketch's frame rate
+  @state() seed = newSeed() // Seeds random() and noise() in the preview
+  @state() seedPinned = false // Keep the seed for new code
+  @state() libraries: LibrarySelection = DEFAULT_LIBRARIES // p5.js version and add-ons the code runs with
+  @state() codeStreaming = false // The editor shows code the model is still writing
 
   private defaultCode = ''
+  private builtInPresets: SystemPreset[] = []
+  private sessionCreatedAt = 0
+  private persistTimer: ReturnType<typeof setTimeout> | null = null
   private readonly previewFrame: HTMLIFrameElement =
     document.createElement('iframe')
+  private readonly preview = new PreviewChannel(this.previewFrame)
   private lastError = ''
   private reportedError = false
+  private autoFixRun: AutoFixRun | null = null
+  private autoFixTimer: ReturnType<typeof setTimeout> | null = null
+  private codeRange: CodeRange = { startLine: 1, lineCount: 0 }
+  private nextConsoleId = 0
+  private lastRun: PreviewRun | null = null // What the preview is running
+  private liveRun: PreviewRun | null = null // Streamed code run early by the live preview
+  private streamBase: { code: string; preview: PreviewRun | null; seed: number } | null = null
+  private readonly assetUrls = new Map<string, string>() // Asset id to object URL
+  private frameCapture: FrameCapture | null = null // GIF or PNG recording in progress
 
   sendMessageHandler?: CallableFunction
   resetHandler?: CallableFunction
+  stopHandler?: CallableFunction
 
   constructor () {
     super()
     this.previewFrame.classList.add('preview-iframe')
     this.previewFrame.setAttribute('allowTransparency', 'true')
 
-    this.codeSyntax.classList.add('code-syntax')
-
-    /* Receive message from the iframe in case any error occures. */
+    /* Receive messages from the sketch: logs, errors, stats and recorder events. */
     window.addEventListener(
       'message',
       msg => {
-        if (msg.data && typeof msg.data === 'string') {
-          try {
-            const message = JSON.parse(msg.data).message
-            this.runtimeErrorHandler(message)
-          } catch (e) {
-            console.error(e)
-          }
+        const message = this.preview.receive(msg)
+        if (!message) return
+        switch (message.kind) {
+          case 'log':
+            for (const entry of message.entries) {
+              this.logToConsole(entry.level, entry.message, entry.stack)
+            }
+            break
+          case 'error':
+            this.runtimeErrorHandler(message.message, message.stack, message.line, message.column)
+            break
+          case 'metrics':
+            this.previewStats = message.stats
+            break
+          case 'event':
+            this.recorderMessageHandler(message)
+            break
         }
       },
       false
@@ -165,145 +398,983 @@ export class Playground extends LitElement {
     this.defaultCode = code
   }
 
-  async setCode(code: string, sourceMessageId: string | null = null) {
+  /** Set the default system instructions, which the built-in presets are based on. */
+  setDefaultInstructions (instructions: string) {
+    this.builtInPresets = builtInPresets(instructions)
+  }
+
+  protected updated (changedProperties: Map<string, unknown>) {
+    // Streamed code is half written; it is saved once the stream ends.
+    if (
+      changedProperties.has('messages') ||
+      (changedProperties.has('code') && !this.codeStreaming) ||
+      changedProperties.has('files') ||
+      changedProperties.has('assets') ||
+      changedProperties.has('versions') ||
+      changedProperties.has('activeVersionId') ||
+      changedProperties.has('libraries')
+    ) {
+      this.schedulePersist()
+    }
+  }
+
+  // --- Session persistence ---
+
+  /**
+   * Restore the last active session from IndexedDB.
+   * Returns false when there was nothing to restore and a fresh session was started.
+   */
+  async restoreSession (): Promise<boolean> {
+    const id = getActiveSessionId()
+    let session: Session | undefined
+    try {
+      session = id ? await loadSession(id) : undefined
+    } catch (e) {
+      console.error('Unable to load session:', e)
+    }
+    await this.refreshSessions()
+
+    if (!session) {
+      await this.applySession(
+        createSession(this.generateId(), 'Untitled session', this.defaultCode)
+      )
+      return false
+    }
+    await this.applySession(session)
+    return true
+  }
+
+  private async applySession (session: Session) {
+    this.sessionId = session.id
+    this.sessionName = session.name
+    this.sessionCreatedAt = session.createdAt
+    setActiveSessionId(session.id)
+
+    this.cancelAutoFix()
+    await this.loadAssets(session.id)
+    this.messages = session.messages
+    this.versions = session.versions
+    this.diffFrom = null
+    this.diffTo = null
+    await this.setCode(session.code, session.activeVersionId, false)
+    this.files = session.files ?? this.files
+    this.libraries = session.libraries ?? this.libraries
+    this.runCode(this.code)
+    // A project that differs from its version has unsaved manual edits.
+    this.codeHasChanged =
+      this.activeVersion?.code !== session.code ||
+      !sameFiles(this.activeVersion?.files, this.files) ||
+      !sameLibraries(this.activeVersion?.libraries, this.libraries)
+  }
+
+  private toSession (): Session | null {
+    if (!this.sessionId) return null
+    return {
+      id: this.sessionId,
+      name: this.sessionName,
+      createdAt: this.sessionCreatedAt,
+      updatedAt: Date.now(),
+      messages: this.messages,
+      versions: this.versions,
+      code: this.streamBase ? this.streamBase.code : this.code,
+      files: this.files,
+      libraries: this.libraries,
+      activeVersionId: this.activeVersionId
+    }
+  }
+
+  private schedulePersist () {
+    if (this.persistTimer) clearTimeout(this.persistTimer)
+    this.persistTimer = setTimeout(() => this.persistSession(), 500)
+  }
+
+  /** Write the current session to IndexedDB immediately. */
+  async persistSession () {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+    const session = this.toSession()
+    if (!session) return
+    try {
+      await saveSession(session)
+      await this.refreshSessions()
+    } catch (e) {
+      console.error('Unable to save session:', e)
+    }
+  }
+
+  private async refreshSessions () {
+    try {
+      this.sessions = await listSessions()
+    } catch (e) {
+      console.error('Unable to list sessions:', e)
+    }
+  }
+
+  private async switchSessionAction (id: string) {
+    if (this.chatState !== ChatState.IDLE || id === this.sessionId) return
+    await this.persistSession()
+    const session = await loadSession(id)
+    if (!session) {
+      console.warn(`Could not find session ${id}`)
+      return
+    }
+    await this.applySession(session)
+    this.selectedChatTab = ChatTab.GEMINI
+    this.scrollToTheEnd()
+  }
+
+  private async newSessionAction () {
+    if (this.chatState !== ChatState.IDLE) return
+    await this.persistSession()
+    await this.applySession(
+      createSession(this.generateId(), 'Untitled session', this.defaultCode)
+    )
+    this.selectedChatTab = ChatTab.GEMINI
+  }
+
+  private async renameSessionAction (id: string) {
+    const current = this.sessions.find(s => s.id === id)
+    const name = window.prompt('Session name:', current?.name ?? '')?.trim()
+    if (!name) return
+
+    if (id === this.sessionId) {
+      this.sessionName = name
+      await this.persistSession()
+      return
+    }
+    const session = await loadSession(id)
+    if (session) {
+      await saveSession({ ...session, name })
+      await this.refreshSessions()
+    }
+  }
+
+  private async duplicateSessionAction (id: string) {
+    if (this.chatState !== ChatState.IDLE) return
+    await this.persistSession()
+    const session = await loadSession(id)
+    if (!session) return
+
+    const now = Date.now()
+    const copy: Session = {
+      ...session,
+      id: this.generateId(),
+      name: `${session.name} (copy)`,
+      createdAt: now,
+      updatedAt: now
+    }
+    await copySessionAssets(id, copy.id, () => this.generateId())
+    await saveSession(copy)
+    await this.refreshSessions()
+    await this.applySession(copy)
+  }
+
+  private async deleteSessionAction (id: string) {
+    if (this.chatState !== ChatState.IDLE) return
+    const session = this.sessions.find(s => s.id === id)
+    const confirmed = window.confirm(
+      `Delete session "${session?.name ?? id}"? This cannot be undone.`
+    )
+    if (!confirmed) return
+
+    const deletingOpenSession = id === this.sessionId
+    if (deletingOpenSession) {
+      // Detach first so a pending save can't resurrect the deleted record.
+      if (this.persistTimer) clearTimeout(this.persistTimer)
+      this.persistTimer = null
+      this.sessionId = null
+    }
+    await deleteSession(id)
+    await this.refreshSessions()
+    if (!deletingOpenSession) return
+
+    // The open session was deleted: fall back to the most recent one, or start fresh.
+    const next = this.sessions[0] && (await loadSession(this.sessions[0].id))
+    await this.applySession(
+      next ||
+        createSession(this.generateId(), 'Untitled session', this.defaultCode)
+    )
+  }
+
+  async setCode(code: string, versionId: string | null = null, run = true) {
     this.code = code;
-    this.runCode(code);
+    this.paramValues = {}; // Tweaks belong to the code they were made on
+    this.activeVersionId = versionId; // Track the loaded version
+    this.files = this.activeVersion?.files ?? []; // The version's project files
+    if (this.activeVersion) this.libraries = this.activeVersion.libraries ?? DEFAULT_LIBRARIES;
+    if (!this.projectFileNames.includes(this.activeFile)) this.activeFile = MAIN_FILE;
+    // A version keeps the seed it first ran with, so it always looks the same
+    const version = this.activeVersion;
+    if (version?.seed !== undefined) {
+      this.seed = version.seed;
+    } else {
+      if (!this.liveRun) this.rollSeed(); // Streamed code already rolled one
+      if (version) this.updateVersion(version.id, { seed: this.seed });
+    }
+    if (run) {
+      // The live preview may already be running exactly this code
+      if (!sameRun(this.liveRun, { code, files: this.files, seed: this.seed })) this.runCode(code);
+    } else {
+      // Leave the preview alone, e.g. for code that failed validation
+      this.codeNeedsReload = true;
+    }
 
-    this.codeSyntax.innerHTML = await marked.parse(
-      '```javascript\n' + code + '\n```',
-    );
     // When code is set (either initially, by AI, or by loading a version),
     // it's no longer "changed" relative to the preview.
     this.codeHasChanged = false;
-    this.activeCodeVersionId = sourceMessageId; // Track the loaded version
+    this.liveRun = null;
     this.requestUpdate(); // Ensure UI reflects the change
   }
 
+  /** The version the editor code is based on, if any. */
+  get activeVersion (): CodeVersion | null {
+    return this.versions.find(v => v.id === this.activeVersionId) ?? null
+  }
+
+  /**
+   * Record a new code version. Unless a parent is given, it branches off the
+   * active version. Returns the new version id; call setCode to load it.
+   */
+  addVersion (
+    versionData: Partial<CodeVersion> & { code: string; author: VersionAuthor }
+  ): string {
+    const version: CodeVersion = {
+      id: this.generateId(),
+      parentId: this.activeVersionId,
+      libraries: this.libraries,
+      createdAt: Date.now(),
+      ...versionData
+    }
+    this.versions = [...this.versions, version]
+    return version.id
+  }
+
+  private updateVersion (id: string, updates: Partial<CodeVersion>) {
+    this.versions = this.versions.map(v =>
+      v.id === id ? { ...v, ...updates } : v
+    )
+  }
+
   setChatState (state: ChatState) {
     this.chatState = state
   }
 
-  runCode (code: string) {
+  /**
+   * Show code in the editor while the model is still writing it. With live
+   * preview on, the code is run as soon as it's a complete, valid sketch, and
+   * again whenever it changes and is still valid.
+   */
+  streamCode (code: string, files: ProjectFile[]) {
+    if (!this.streamBase) {
+      this.streamBase = { code: this.code, preview: this.lastRun, seed: this.seed }
+      this.rollSeed()
+    }
+    this.codeStreaming = true
+    this.activeFile = MAIN_FILE
+    this.code = code
+    const run = { code, files, seed: this.seed }
+    if (!sameRun(this.lastRun, run) && !hasErrors(validateSketch(code, this.libraries))) {
+      this.runCode(code, files)
+      this.liveRun = run
+    }
+  }
+
+  /**
+   * Stop showing streamed code. Pass `keep` when the response's code is run
+   * with setCode next; otherwise the editor and preview go back to what they
+   * showed before the response.
+   */
+  endCodeStream (keep: boolean) {
+    const base = this.streamBase
+    this.streamBase = null
+    this.codeStreaming = false
+    if (!base) return
+    this.schedulePersist()
+    if (keep) return
+    this.code = base.code
+    this.seed = base.seed
+    if (this.lastRun !== base.preview) {
+      if (base.preview) this.runCode(base.preview.code, base.preview.files, { seed: base.preview.seed })
+      this.liveRun = null
+    }
+  }
+
+  /** New code gets a new seed, unless the seed is pinned. */
+  private rollSeed () {
+    if (!this.seedPinned) this.seed = newSeed()
+  }
+
+  /**
+   * Run code in the preview, by default with the other files of the project.
+   * With `capture`, the sketch is stepped frame by frame for a GIF or PNG
+   * recording; with `seekFrame`, it is fast-forwarded to that frame and paused.
+   * random() and noise() are seeded with `seed`, or the current seed.
+   */
+  runCode (code: string, files = this.files, options: RunOptions = {}) {
+    const capture = options.capture ?? null
+    // A new run ends any recording of the previous one
+    if (!capture) this.resetRecording()
     this.reportedError = false
     this.lastError = ''
-
-    const htmlContent = `
-                <!DOCTYPE html>
-                <html lang="en">
-                <head>
-                    <meta charset="UTF-8">
-                    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                    <title>p5.js Sketch</title>
-                    <style>
-                        body { margin: 0; overflow: hidden; display: flex; justify-content: center; align-items: center; height: 100vh; background-color: #f8f9fa; }
-                        main { display: flex; justify-content: center; align-items: center; }
-                        .console { position: absolute; bottom: 0; left: 0; width: 100%; background: rgba(0, 0, 0, 0.7); padding: 1em; margin: 0; color: red; font-family: monospace;}
-                    </style>
-                    <script src="${p5jsCdnUrl}"></script>
-                    <script src="${p5soundCdnUrl}"></script>
-                    <script>
-                      window.theSketchInstance = null;
-                      window.addEventListener('message', (event) => {
-                        console.log('Message received from parent:', event.data);
-                        const instance = window.theSketchInstance;
-
-                        if (!instance) {
-                          console.warn('Sketch instance (window.theSketchInstance) not found yet.');
-                          // Attempt to grab it again, maybe it wasn't ready before?
-                          window.theSketchInstance = window.p5?.instance;
-                          if (!window.theSketchInstance) {
-                            console.warn('Still cannot find sketch instance.');
-                            return;
-                          }
-                          // If found now, retry using the newly found instance
-                          instance = window.theSketchInstance;
-                      }
-
-                      if (event.data === 'stop') {
-                          if (typeof instance.noLoop === 'function') {
-                              instance.noLoop();
-                              console.log('Sketch stopped (theSketchInstance.noLoop)');
-                          } else {
-                              console.warn('theSketchInstance.noLoop is not available.');
-                          }
-                      } else if (event.data === 'resume') {
-                          if (typeof instance.loop === 'function') {
-                              instance.loop();
-                              console.log('Sketch resumed (theSketchInstance.loop)');
-                          } else {
-                              console.warn('theSketchInstance.loop is not available.');
-                          }
-                      }
-                  }, false);
-                </script>
-                </head>
-                <body>
+    const seed = options.seed ?? this.seed
+    this.seed = seed
+    this.lastRun = { code, files, seed }
+    this.liveRun = null
+    this.previewStats = null
+    this.isRunning = options.seekFrame === undefined
+
+    // Parameters can be changed from the panel while the sketch runs
+    const params = findParams(code)
+    this.sketchParams = params
+    this.paramValues = Object.fromEntries(
+      Object.entries(this.paramValues).filter(([name]) => params.some(p => p.name === name))
+    )
+    const paramHook = params.length
+      ? `<script>${paramHookScript(this.paramValues)}</script>`
+      : ''
+
+    const head = `<script>${PREVIEW_PROTOCOL_SCRIPT}</script>
+                    <script>${CONSOLE_HOOK_SCRIPT}</script>
+                    <script>${assetResolverScript(this.assetUrlsByName)}</script>
+                    ${libraryFiles(this.libraries)
+                      .map(file => `<script src="${libraryUrl(file)}"></script>`)
+                      .join('\n')}
+                    <script>${P5_COMPAT_SCRIPT}</script>
+                    <script>${seedScript(seed)}</script>
+                    <script>${recorderScript(capture && captureSettings(capture))}</script>
+                    <script>window.theSketchInstance = null;</script>
+                    <script>${previewControlScript({
+                      frameRate: this.targetFrameRate,
+                      seekFrame: options.seekFrame ?? null,
+                      capturing: !!capture
+                    })}</script>
+                    ${paramHook}`
+    const sketch = `
                     <script>
                         // Basic error handling within the iframe
                         try {
-                            // 3. Override p5 constructor BEFORE user code runs
-                            if (typeof window.p5 === 'function') {
-                                originalP5Constructor = window.p5; // Store the original
-
-                                window.p5 = function(...args) {
-                                    console.log('Overridden p5 constructor called.');
-                                    // Call the original constructor with the same arguments
-                                    const instance = new originalP5Constructor(...args);
-                                    // Capture the returned instance
-                                    window.theSketchInstance = instance;
-                                    console.log('p5 instance captured via constructor override:', window.theSketchInstance);
-                                    // Return the instance so the sketch initializes correctly
-                                    return instance;
-                                };
-                                // Copy static properties (like Vector, etc.) from original to wrapper
-                                Object.assign(window.p5, originalP5Constructor);
-                            } else {
-                                console.error("window.p5 not found before sketch execution. Cannot override constructor.");
-                            }
-
-                            // 4. User's code is injected here. It will call our overridden constructor.
-                            ${code}
-
+                            // User's code is injected here. The preview controls pick up the p5 instance it creates.
+${SKETCH_CODE_MARKER}
                         } catch (error) {
-                            console.error("Error in sketch:", error);
-                            parent.postMessage(
-                              JSON.stringify({
-                                message: error.toString()
-                              })
-                            );
+                            window.playgroundPreview.post('error', {
+                              message: error.toString(),
+                              stack: error.stack
+                            });
                             // Display error in the iframe itself
                             document.body.innerHTML = '<div style="padding: 20px; font-family: monospace; color: red; background: #fff0f0;">' +
                                                       '<h3>Sketch Error</h3><pre>' + error.toString() + '</pre>' +
                                                       '<p>Check the browser console for details or ask Gemini to fix it.</p>' +
                                                       '</div>';
-                        } finally {
-                            // 5. Restore original p5 constructor (optional, but good practice)
-                            if (originalP5Constructor) {
-                                window.p5 = originalP5Constructor;
-                                console.log('Original p5 constructor restored.');
-                            }
                         }
-                    </script>
-                </body>
-                </html>
-            `
-
-    this.previewFrame.setAttribute('srcdoc', htmlContent)
+                    </script>`
+    const htmlContent = assembleProject(files, { head, sketch })
+
+    // The code goes on lines of its own so its line numbers can be mapped back.
+    const [before, after] = htmlContent.split(SKETCH_CODE_MARKER)
+    this.codeRange = {
+      startLine: before.split('\n').length,
+      lineCount: code.split('\n').length
+    }
+    this.consoleEntries = []
+    this.errorLine = null
+    this.preview.reset()
+    this.previewFrame.setAttribute(
+      'srcdoc',
+      before + writableParamCode(code, params) + after
+    )
     this.codeNeedsReload = false
   }
 
-  runtimeErrorHandler (errorMessage: string) {
+  runtimeErrorHandler (
+    errorMessage: string,
+    stack?: string,
+    line?: number,
+    column?: number
+  ) {
+    if (this.codeStreaming) {
+      // Code run early by the live preview: the final code is run again.
+      this.logToConsole('error', errorMessage, stack, line, column)
+      this.liveRun = null
+      return
+    }
     this.reportedError = true
+    this.logToConsole('error', errorMessage, stack, line, column)
+    // A sketch that throws stops stepping, so the capture can't finish
+    if (this.frameCapture) this.resetRecording()
 
-    if (this.lastError !== errorMessage) {
+    // Line numbers in the iframe are offset by the harness around the code.
+    const location = sketchLocation(this.codeRange, stack, line, column)
+    if (location && this.errorLine === null) this.errorLine = location.line
+
+    const isNewError = this.lastError !== errorMessage
+    if (isNewError) {
       // Use the new addMessage structure
       this.addMessage({
         role: 'system-ask',
         text: errorMessage, // Store raw error message
+        errorStack: stack && translateStack(this.codeRange, stack),
+        errorLine: location?.line,
+        errorColumn: location?.column,
         id: this.generateId()
       })
     }
     this.lastError = errorMessage
+    if (isNewError && this.autoFix) {
+      this.autoFixAction(errorMessage)
+    }
+  }
+
+  // --- Automatic error fixing ---
+
+  /**
+   * Ask the model to fix a runtime error without waiting for the user. Each
+   * fix becomes a version; the run continues while the fixed code keeps
+   * failing, up to AUTO_FIX_MAX_ATTEMPTS or until an error repeats.
+   */
+  private async autoFixAction (error: string) {
+    // Errors that arrive while generating are picked up once the fix is in.
+    if (this.chatState !== ChatState.IDLE) return
+    if (this.autoFixTimer) {
+      clearTimeout(this.autoFixTimer)
+      this.autoFixTimer = null
+    }
+
+    const run = this.autoFixRun ?? { attempts: [] }
+    const reason = stopReason(run, error)
+    if (reason) {
+      this.finishAutoFix(reason)
+      return
+    }
+    this.autoFixRun = run
+    const attempt: AutoFixAttempt = { error }
+    run.attempts.push(attempt)
+
+    const previousVersionId = this.activeVersionId
+    await this.sendMessageAction(error, 'SYSTEM')
+    if (this.autoFixRun !== run) return // Cancelled while generating
+
+    if (this.activeVersionId === previousVersionId) {
+      this.finishAutoFix('no-fix')
+      return
+    }
+    attempt.versionId = this.activeVersionId ?? undefined
+    const fix = this.messages.find(m => m.versionId === this.activeVersionId)
+    if (fix?.diagnostics && hasErrors(fix.diagnostics)) {
+      this.finishAutoFix('invalid')
+    } else if (this.reportedError) {
+      this.autoFixAction(this.lastError)
+    } else {
+      // No news is good news: wait a moment for the fixed sketch to fail.
+      this.autoFixTimer = setTimeout(
+        () => this.finishAutoFix('fixed'),
+        AUTO_FIX_SETTLE_MS
+      )
+    }
+  }
+
+  /** End the current auto-fix run and post a summary of what was tried. */
+  private finishAutoFix (outcome: AutoFixOutcome) {
+    const run = this.autoFixRun
+    this.cancelAutoFix()
+    if (!run || run.attempts.length === 0) return
+    run.outcome = outcome
+    this.addMessage({ role: 'auto-fix', text: autoFixSummary(run) })
+  }
+
+  /** Drop the current auto-fix run without a summary. */
+  private cancelAutoFix () {
+    if (this.autoFixTimer) clearTimeout(this.autoFixTimer)
+    this.autoFixTimer = null
+    this.autoFixRun = null
+  }
+
+  private toggleAutoFixAction (enabled: boolean) {
+    this.autoFix = enabled
+    setAutoFixEnabled(enabled)
+    if (!enabled) this.finishAutoFix('cancelled')
+  }
+
+  /** Show a sketch line in the Code tab. */
+  private async jumpToLineAction (line: number, column?: number) {
+    this.selectedChatTab = ChatTab.CODE
+    this.activeFile = MAIN_FILE
+    await this.updateComplete
+    this.codeEditor?.revealLine(line, column)
+  }
+
+  // --- Model settings ---
+
+  get presets (): SystemPreset[] {
+    return [...this.builtInPresets, ...this.settings.customPresets]
+  }
+
+  get selectedPreset (): SystemPreset | undefined {
+    return (
+      this.presets.find(p => p.id === this.settings.presetId) ?? this.presets[0]
+    )
+  }
+
+  /** System instructions of the selected preset, used for every new chat. */
+  get systemInstruction (): string {
+    return this.selectedPreset?.instructions ?? ''
+  }
+
+  private updateSettings (updates: Partial<Settings>) {
+    this.settings = { ...this.settings, ...updates }
+    saveSettings(this.settings)
+  }
+
+  private updateRecordOptions (updates: Partial<RecordOptions>) {
+    this.updateSettings({ record: { ...this.settings.record, ...updates } })
+  }
+
+  private updateGeneration (updates: Partial<GenerationOptions>) {
+    this.updateSettings({
+      generation: { ...this.settings.generation, ...updates }
+    })
+  }
+
+  private selectPresetAction (id: string) {
+    if (
+      this.presetDraft !== null &&
+      !window.confirm('Discard your unsaved changes to the instructions?')
+    ) {
+      this.requestUpdate() // Put the select back
+      return
+    }
+    this.presetDraft = null
+    this.updateSettings({ presetId: id })
+  }
+
+  private savePresetAction () {
+    const preset = this.selectedPreset
+    const instructions = this.presetDraft
+    if (!preset || preset.builtIn || instructions === null) return
+    this.updateSettings({
+      customPresets: this.settings.customPresets.map(p =>
+        p.id === preset.id ? { ...p, instructions } : p
+      )
+    })
+    this.presetDraft = null
+  }
+
+  private savePresetAsAction () {
+    const current = this.selectedPreset?.name ?? 'Preset'
+    const name = window.prompt('Preset name:', `${current} (copy)`)?.trim()
+    if (!name) return
+    const preset: SystemPreset = {
+      id: this.generateId(),
+      name,
+      instructions: this.presetDraft ?? this.systemInstruction
+    }
+    this.updateSettings({
+      customPresets: [...this.settings.customPresets, preset],
+      presetId: preset.id
+    })
+    this.presetDraft = null
+  }
+
+  private deletePresetAction () {
+    const preset = this.selectedPreset
+    if (!preset || preset.builtIn) return
+    if (!window.confirm(`Delete preset "${preset.name}"?`)) return
+    this.updateSettings({
+      customPresets: this.settings.customPresets.filter(p => p.id !== preset.id),
+      presetId: DEFAULT_PRESET_ID
+    })
+    this.presetDraft = null
+  }
+
+  private renderSettings () {
+    const generation = this.settings.generation
+    const thinking = generation.thinking ?? true
+    const preset = this.selectedPreset
+    const record = this.settings.record
+    // Empty number fields mean "use the default"
+    const optionalNumber = (e: Event) => {
+      const value = (e.target as HTMLInputElement).value.trim()
+      return value === '' ? undefined : Number(value)
+    }
+    return html`
+      <div class="settings-section">
+        <h3>Model</h3>
+        <label>
+          Model name
+          <input
+            list="model-suggestions"
+            placeholder="Provider default"
+            .value=${generation.model ?? ''}
+            @change=${(e: Event) => {
+              const model = (e.target as HTMLInputElement).value.trim()
+              this.updateGeneration({ model: model || undefined })
+            }} />
+          <datalist id="model-suggestions">
+            ${map(SUGGESTED_MODELS, model => html`<option value=${model}></option>`)}
+          </datalist>
+        </label>
+        <label>
+          Temperature
+          <input
+            type="number"
+            min="0"
+            max="2"
+            step="0.1"
+            placeholder="Default"
+            .value=${generation.temperature?.toString() ?? ''}
+            @change=${(e: Event) => {
+              this.updateGeneration({ temperature: optionalNumber(e) })
+            }} />
+        </label>
+        <label class="settings-check">
+          <input
+            type="checkbox"
+            .checked=${thinking}
+            @change=${(e: Event) => {
+              this.updateGeneration({
+                thinking: (e.target as HTMLInputElement).checked
+              })
+            }} />
+          Thinking
+        </label>
+        <label>
+          Thinking budget (tokens)
+          <input
+            type="number"
+            min="0"
+            step="256"
+            placeholder="Automatic"
+            ?disabled=${!thinking}
+            .value=${generation.thinkingBudget?.toString() ?? ''}
+            @change=${(e: Event) => {
+              this.updateGeneration({ thinkingBudget: optionalNumber(e) })
+            }} />
+        </label>
+      </div>
+      <div class="settings-section">
+        <h3>Preview</h3>
+        <label class="settings-check">
+          <input
+            type="checkbox"
+            .checked=${this.settings.livePreview}
+            @change=${(e: Event) => {
+              this.updateSettings({
+                livePreview: (e.target as HTMLInputElement).checked
+              })
+            }} />
+          Live preview: show code as it's written and run it once complete
+        </label>
+      </div>
+      <div class="settings-section">
+        <h3>Recording</h3>
+        <label>
+          Format
+          <select
+            @change=${(e: Event) => {
+              this.updateRecordOptions({
+                format: (e.target as HTMLSelectElement).value as RecordFormat
+              })
+            }}>
+            ${map(
+              Object.entries(RECORD_FORMAT_LABELS),
+              ([format, label]) => html`<option
+                value=${format}
+                ?selected=${format === record.format}>
+                ${label}
+              </option>`
+            )}
+          </select>
+        </label>
+        <label>
+          Frames
+          <input
+            type="number"
+            min="1"
+            max=${MAX_RECORD_FRAMES}
+            ?disabled=${record.format === 'webm'}
+            .value=${record.frames.toString()}
+            @change=${(e: Event) => {
+              const frames = Math.round(Number((e.target as HTMLInputElement).value))
+              this.updateRecordOptions({
+                frames: Math.min(Math.max(frames || 1, 1), MAX_RECORD_FRAMES)
+              })
+            }} />
+        </label>
+        <label>
+          Frame rate (fps)
+          <input
+            type="number"
+            min="1"
+            max="60"
+            .value=${record.fps.toString()}
+            @change=${(e: Event) => {
+              const fps = Number((e.target as HTMLInputElement).value)
+              this.updateRecordOptions({ fps: Math.min(Math.max(fps || 30, 1), 60) })
+            }} />
+        </label>
+      </div>
+      <div class="settings-section">
+        <h3>System instructions</h3>
+        <select
+          @change=${(e: Event) => {
+            this.selectPresetAction((e.target as HTMLSelectElement).value)
+          }}>
+          ${map(
+            this.presets,
+            p => html`<option value=${p.id} ?selected=${p.id === preset?.id}>
+              ${p.name}
+            </option>`
+          )}
+        </select>
+        <textarea
+          class="preset-instructions"
+          .value=${this.presetDraft ?? preset?.instructions ?? ''}
+          @input=${(e: InputEvent) => {
+            this.presetDraft = (e.target as HTMLTextAreaElement).value
+          }}></textarea>
+        <div class="settings-actions">
+          <button
+            ?disabled=${!preset || preset.builtIn || this.presetDraft === null}
+            title=${preset?.builtIn ? 'Built-in presets can only be saved as a new preset' : ''}
+            @click=${() => this.savePresetAction()}>
+            Save
+          </button>
+          <button @click=${() => this.savePresetAsAction()}>Save as new…</button>
+          <button
+            ?disabled=${this.presetDraft === null}
+            @click=${() => {
+              this.presetDraft = null
+            }}>
+            Revert
+          </button>
+          <button
+            ?disabled=${!preset || preset.builtIn}
+            @click=${() => this.deletePresetAction()}>
+            Delete
+          </button>
+        </div>
+        <p class="settings-note">Settings apply from the next message.</p>
+      </div>
+    `
+  }
+
+  // --- Sketch console ---
+
+  /** Add sketch output to the console panel, located in the sketch code where possible. */
+  private logToConsole (
+    level: ConsoleLevel,
+    message: string,
+    stack?: string,
+    line?: number,
+    column?: number
+  ) {
+    const location = sketchLocation(this.codeRange, stack, line, column)
+    this.consoleEntries = appendEntry(this.consoleEntries, {
+      id: this.nextConsoleId++,
+      level,
+      message,
+      stack,
+      line: location?.line,
+      column: location?.column,
+      count: 1,
+      time: Date.now()
+    })
+  }
+
+  // --- Assets ---
+
+  private async loadAssets (sessionId: string) {
+    this.assetUrls.forEach(url => URL.revokeObjectURL(url))
+    this.assetUrls.clear()
+    try {
+      this.assets = await listAssets(sessionId)
+    } catch (e) {
+      console.error('Unable to load assets:', e)
+      this.assets = []
+    }
+    for (const asset of this.assets) {
+      this.assetUrls.set(asset.id, URL.createObjectURL(asset.data))
+    }
+  }
+
+  /** Object URLs of the assets by name, for the preview. */
+  private get assetUrlsByName (): Record<string, string> {
+    const urls: Record<string, string> = {}
+    for (const asset of this.assets) {
+      const url = this.assetUrls.get(asset.id)
+      if (url) urls[asset.name] = url
+    }
+    return urls
+  }
+
+  /** Store files as assets, renaming clashes. Returns the assets that were added. */
+  private async addAssetsAction (files: ArrayLike<File> | null) {
+    if (!files || !this.sessionId) return []
+    const added: Asset[] = []
+    for (const file of Array.from(files)) {
+      const taken = [...this.assets, ...added].map(a => a.name)
+      const asset: Asset = {
+        id: this.generateId(),
+        sessionId: this.sessionId,
+        name: uniqueAssetName(file.name, taken),
+        type: file.type || 'application/octet-stream',
+        size: file.size,
+        data: file,
+        createdAt: Date.now()
+      }
+      try {
+        await saveAsset(asset)
+      } catch (e) {
+        console.error('Unable to save asset:', e)
+        window.alert(`Could not add ${file.name}: ${(e as Error).message}`)
+        continue
+      }
+      this.assetUrls.set(asset.id, URL.createObjectURL(file))
+      added.push(asset)
+    }
+    if (added.length === 0) return added
+    this.assets = [...this.assets, ...added]
+    this.codeNeedsReload = true // The preview only sees assets it was run with
+    return added
+  }
+
+  private async deleteAssetAction (asset: Asset) {
+    if (!window.confirm(`Delete ${asset.name}?`)) return
+    try {
+      await deleteAsset(asset.id)
+    } catch (e) {
+      console.error('Unable to delete asset:', e)
+      return
+    }
+    const url = this.assetUrls.get(asset.id)
+    if (url) URL.revokeObjectURL(url)
+    this.assetUrls.delete(asset.id)
+    this.assets = this.assets.filter(a => a.id !== asset.id)
+  }
+
+  private renderAssets () {
+    const drop = (e: DragEvent) => {
+      e.preventDefault()
+      this.assetDragOver = false
+      this.addAssetsAction(e.dataTransfer?.files ?? null)
+    }
+    return html`
+      <label
+        class=${classMap({ 'asset-drop': true, 'drag-over': this.assetDragOver })}
+        @dragover=${(e: DragEvent) => {
+          e.preventDefault()
+          this.assetDragOver = true
+        }}
+        @dragleave=${() => {
+          this.assetDragOver = false
+        }}
+        @drop=${drop}>
+        Drop images, fonts, sounds or data files here, or click to choose
+        <input
+          type="file"
+          multiple
+          hidden
+          @change=${(e: Event) => {
+            const input = e.target as HTMLInputElement
+            this.addAssetsAction(input.files)
+            input.value = ''
+          }} />
+      </label>
+      ${this.assets.length === 0
+        ? html`<p class="assets-empty">
+            Sketches load assets by path, e.g.
+            <code>loadImage('assets/cat.png')</code>.
+          </p>`
+        : html`<ul class="asset-list">
+            ${map(this.assets, asset => {
+              const url = this.assetUrls.get(asset.id)
+              return html`<li class="asset-item">
+                ${assetKind(asset.name) === 'image' && url
+                  ? html`<img class="asset-thumb" src=${url} alt="" />`
+                  : html`<span class="asset-thumb">${assetKind(asset.name)}</span>`}
+                <span class="asset-info">
+                  <code class="asset-path">${assetPath(asset.name)}</code>
+                  <span class="asset-size">${formatSize(asset.size)}</span>
+                </span>
+                <button
+                  title="Copy path"
+                  @click=${() => navigator.clipboard.writeText(assetPath(asset.name))}>
+                  Copy path
+                </button>
+                <button
+                  title="Delete asset"
+                  @click=${() => this.deleteAssetAction(asset)}>
+                  ✕
+                </button>
+              </li>`
+            })}
+          </ul>`}
+    `
+  }
+
+  private get filteredConsoleEntries () {
+    const search = this.consoleSearch.toLowerCase()
+    return this.consoleEntries.filter(entry => {
+      const level =
+        entry.level === 'info' || entry.level === 'debug' ? 'log' : entry.level
+      if (this.consoleLevel !== 'all' && level !== this.consoleLevel) return false
+      return !search || entry.message.toLowerCase().includes(search)
+    })
+  }
+
+  private renderConsole () {
+    const filters: Array<[ConsoleFilter, string]> = [
+      ['all', 'All'],
+      ['error', 'Errors'],
+      ['warn', 'Warnings'],
+      ['log', 'Logs']
+    ]
+    return html`
+      <div class="console-toolbar">
+        ${map(
+          filters,
+          ([filter, label]) => html`<button
+            class=${classMap({ 'selected-filter': this.consoleLevel === filter })}
+            @click=${() => {
+              this.consoleLevel = filter
+            }}>
+            ${label}
+          </button>`
+        )}
+        <input
+          type="search"
+          placeholder="Filter"
+          .value=${this.consoleSearch}
+          @input=${(e: InputEvent) => {
+            this.consoleSearch = (e.target as HTMLInputElement).value
+          }} />
+        <button
+          @click=${() => {
+            this.consoleEntries = []
+          }}>
+          Clear
+        </button>
+      </div>
+      <ul class="console-entries">
+        ${map(
+          this.filteredConsoleEntries,
+          entry => html`<li class=${`console-entry console-${entry.level}`}>
+            ${entry.count > 1
+              ? html`<span class="console-count">${entry.count}</span>`
+              : ''}
+            <pre class="console-message">${entry.message}</pre>
+            ${entry.line
+              ? html`<button
+                  class="console-location"
+                  @click=${() => this.jumpToLineAction(entry.line!, entry.column)}>
+                  line ${entry.line}
+                </button>`
+              : ''}
+          </li>`
+        )}
+      </ul>
+    `
   }
 
   setInputField (message: string) {
@@ -335,6 +1406,10 @@ export class Playground extends LitElement {
     this.scrollToTheEnd()
   }
 
+  removeMessage (id: string) {
+    this.messages = this.messages.filter(msg => msg.id !== id)
+  }
+
   // --- Helper to generate unique IDs ---
   private generateId (): string {
     return Date.now().toString(36) + Math.random().toString(36).substring(2)
@@ -354,19 +1429,28 @@ export class Playground extends LitElement {
   async sendMessageAction (message?: string, role?: string) {
     if (this.chatState !== ChatState.IDLE) return
 
-    let manualSnapshotId: string | null = null;
     console.log(this.codeHasChanged, role?.toLowerCase());
     if (this.codeHasChanged && role?.toLowerCase() !== 'system') { // Don't snapshot before system prompts
         console.log("Code has changed, creating manual snapshot...");
-        manualSnapshotId = this.addMessage({
+        const snapshotMessageId = this.generateId();
+        // The snapshot branches off the version the edits were based on
+        const snapshotVersionId = this.addVersion({
+            code: this.code,
+            files: this.files,
+            author: 'manual',
+            seed: this.seed,
+            messageId: snapshotMessageId
+        });
+        this.addMessage({
             role: 'manual-snapshot',
             text: 'Snapshot of manual code edits.',
             code: this.code, // Store the current code
-            id: this.generateId()
+            versionId: snapshotVersionId,
+            id: snapshotMessageId
         });
         // Mark code as "not changed" relative to this new snapshot
         this.codeHasChanged = false;
-        this.activeCodeVersionId = manualSnapshotId;
+        this.activeVersionId = snapshotVersionId;
         // No need to call setCode here, just update the state flags
         this.requestUpdate(); // Ensure UI reflects the new snapshot and active state
     }
@@ -411,19 +1495,280 @@ export class Playground extends LitElement {
     this.chatState = ChatState.IDLE
   }
 
+  /** Stop the response being generated; what arrived so far is kept. */
+  private stopGenerationAction () {
+    if (this.chatState === ChatState.IDLE) return
+    if (this.autoFixRun) this.finishAutoFix('cancelled')
+    if (this.stopHandler) {
+      this.stopHandler()
+    }
+  }
+
   private async playAction () {
     if (this.isRunning) return
     if (this.codeHasChanged) {
       this.runCode(this.code)
     }
     this.isRunning = true
-    this.previewFrame.contentWindow.postMessage('resume', '*')
+    this.preview.send({ command: 'resume' })
+  }
+
+  /**
+   * Start or stop recording the preview. WebM records until stopped; GIF and
+   * PNG recordings rerun the sketch and step it through the set number of
+   * frames.
+   */
+  private recordAction () {
+    if (this.recording) {
+      if (this.recording.format === 'webm') {
+        this.preview.send({ command: 'record-stop' })
+      } else {
+        this.runCode(this.lastRun?.code ?? this.code, this.lastRun?.files)
+      }
+      return
+    }
+    const options = this.settings.record
+    if (options.format === 'webm') {
+      this.recording = { format: 'webm', frame: 0, frames: 0 }
+      this.preview.send({ command: 'record-start', fps: options.fps })
+      if (!this.isRunning) this.playAction()
+    } else {
+      this.runCode(this.code, this.files, { capture: options })
+      this.frameCapture = startFrameCapture(options)
+      this.recording = { format: options.format, frame: 0, frames: options.frames }
+      this.isRunning = true
+    }
+  }
+
+  /** Forget a recording in progress. */
+  private resetRecording () {
+    this.frameCapture = null
+    this.recording = null
+  }
+
+  /** Messages from the recorder script in the preview. */
+  private async recorderMessageHandler (data: RecorderEvent) {
+    if (!this.recording) return
+    switch (data.event) {
+      case 'recording':
+        this.recording = null
+        downloadBlob(data.blob, `p5js-recording-${fileTimestamp()}.webm`)
+        break
+      case 'record-frame':
+        if (!this.frameCapture) return
+        addCapturedFrame(this.frameCapture, data.image)
+        this.recording = { ...this.recording, frame: data.frame }
+        break
+      case 'record-done': {
+        const capture = this.frameCapture
+        if (!capture) return
+        this.resetRecording()
+        try {
+          const blob = await finishFrameCapture(capture)
+          const extension = capture.options.format === 'gif' ? 'gif' : 'zip'
+          downloadBlob(blob, `p5js-recording-${fileTimestamp()}.${extension}`)
+        } catch (e) {
+          console.error('Unable to encode the recording:', e)
+          window.alert(`Recording failed: ${(e as Error).message}`)
+        }
+        // Back to running in real time
+        if (this.lastRun) this.runCode(this.lastRun.code, this.lastRun.files)
+        break
+      }
+      case 'record-error':
+        this.resetRecording()
+        window.alert(data.message)
+        break
+    }
+  }
+
+  /** Change a parameter of the running sketch, without reloading it. */
+  private setParamAction (param: SketchParam, value: ParamValue) {
+    this.paramValues = { ...this.paramValues, [param.name]: value }
+    this.preview.send({ command: 'set-param', name: param.name, value })
+  }
+
+  private resetParamsAction () {
+    this.paramValues = {}
+    if (this.lastRun) this.runCode(this.lastRun.code, this.lastRun.files)
+  }
+
+  /** Write the panel's values into the code as a new version. */
+  private async bakeParamsAction () {
+    if (this.chatState !== ChatState.IDLE) return
+    if (Object.keys(this.paramValues).length === 0) return
+    const code = bakeParams(this.code, this.paramValues)
+    const messageId = this.generateId()
+    const versionId = this.addVersion({
+      code,
+      files: this.files,
+      author: 'manual',
+      label: 'Baked parameters',
+      seed: this.seed,
+      messageId
+    })
+    this.addMessage({
+      role: 'manual-snapshot',
+      text: 'Baked parameter values into the code.',
+      code,
+      versionId,
+      id: messageId
+    })
+    await this.setCode(code, versionId)
+  }
+
+  private renderParam (param: SketchParam) {
+    const value = this.paramValues[param.name] ?? param.value
+    const changed = param.name in this.paramValues
+    let input
+    if (param.kind === 'boolean') {
+      input = html`<input
+        type="checkbox"
+        .checked=${value as boolean}
+        @change=${(e: Event) => {
+          this.setParamAction(param, (e.target as HTMLInputElement).checked)
+        }} />`
+    } else if (param.kind === 'color') {
+      input = html`<input
+        type="color"
+        .value=${value as string}
+        @input=${(e: Event) => {
+          this.setParamAction(param, (e.target as HTMLInputElement).value)
+        }} />`
+    } else {
+      input = html`<input
+        type="range"
+        min=${param.min}
+        max=${param.max}
+        step=${param.step}
+        .value=${String(value)}
+        @input=${(e: Event) => {
+          this.setParamAction(param, Number((e.target as HTMLInputElement).value))
+        }} />
+        <span class="param-value">${value}</span>`
+    }
+    return html`<label class=${classMap({ param: true, changed })}>
+      <span class="param-name" title=${param.name}>${param.name}</span>
+      ${input}
+    </label>`
+  }
+
+  /** Controls for the running sketch's parameters, over the preview. */
+  private renderParams () {
+    if (this.sketchParams.length === 0) return ''
+    const changed = Object.keys(this.paramValues).length > 0
+    return html`<div class="params-panel">
+      <div class="params-header">
+        <button
+          class="params-toggle"
+          title=${this.paramsOpen ? 'Hide parameters' : 'Show parameters'}
+          @click=${() => {
+            this.paramsOpen = !this.paramsOpen
+          }}>
+          ${this.paramsOpen ? '▾' : '▸'} Parameters
+        </button>
+        ${this.paramsOpen
+          ? html`<button
+                ?disabled=${!changed}
+                title="Go back to the values in the code"
+                @click=${() => this.resetParamsAction()}>
+                Reset
+              </button>
+              <button
+                ?disabled=${!changed || this.chatState !== ChatState.IDLE}
+                title="Write these values into the code as a new version"
+                @click=${() => this.bakeParamsAction()}>
+                Bake into code
+              </button>`
+          : ''}
+      </div>
+      ${this.paramsOpen
+        ? html`<div class="params-list">
+            ${map(this.sketchParams, param => this.renderParam(param))}
+          </div>`
+        : ''}
+    </div>`
+  }
+
+  /** Pause the sketch and draw one more frame. */
+  private stepAction () {
+    this.isRunning = false
+    this.preview.send({ command: 'step' })
+  }
+
+  /**
+   * Pause the sketch at a frame. Later frames are reached by drawing on from
+   * the current one; earlier ones by rerunning the sketch and fast-forwarding.
+   */
+  private async seekAction (frame: number) {
+    if (!Number.isFinite(frame) || frame < 1) return
+    frame = Math.min(Math.round(frame), MAX_SEEK_FRAME)
+    // The stats can be half a second old, so ask the sketch where it is
+    const current = await this.preview
+      .request<SketchState>({ command: 'get-state' })
+      .then(state => state.frame)
+      .catch(() => this.previewStats?.frame ?? 0)
+    if (frame > current) {
+      this.isRunning = false
+      this.preview.send({ command: 'seek', frame })
+    } else if (this.lastRun) {
+      this.runCode(this.lastRun.code, this.lastRun.files, { seekFrame: frame })
+    }
+  }
+
+  private setFrameRateAction (fps: number | null) {
+    this.targetFrameRate = fps
+    this.preview.send({ command: 'frame-rate', fps })
+  }
+
+  /** Frame controls and performance of the running sketch. */
+  private renderPreviewBar () {
+    const stats = this.previewStats
+    return html`<div class="preview-bar">
+      <span class="preview-stats" title="Measured frame rate, time spent in draw() and canvas size">
+        ${stats
+          ? html`Frame ${stats.frame} · ${stats.fps} fps ·
+              ${stats.frameTime.toFixed(1)} ms · ${stats.width}×${stats.height}
+              ${stats.stepped ? ' · stepped' : ''}`
+          : '–'}
+      </span>
+      <button
+        title="Pause and draw the next frame"
+        @click=${() => this.stepAction()}>
+        Step
+      </button>
+      <label title="Pause at a frame: later frames are drawn on from here, earlier ones rerun the sketch">
+        Go to frame
+        <input
+          type="number"
+          min="1"
+          max=${MAX_SEEK_FRAME}
+          @change=${(e: Event) => {
+            const input = e.target as HTMLInputElement
+            this.seekAction(Number(input.value))
+            input.value = ''
+          }} />
+      </label>
+      <label title="Target frame rate; empty for the sketch's own">
+        Target fps
+        <input
+          type="number"
+          min="1"
+          max="240"
+          placeholder="Auto"
+          .value=${this.targetFrameRate?.toString() ?? ''}
+          @change=${(e: Event) => {
+            const fps = Number((e.target as HTMLInputElement).value)
+            this.setFrameRateAction(fps > 0 ? Math.min(fps, 240) : null)
+          }} />
+      </label>
+    </div>`
   }
 
   private async stopAction () {
     if (!this.isRunning) return
     this.isRunning = false
-    this.previewFrame.contentWindow.postMessage('stop', '*')
+    this.preview.send({ command: 'stop' })
   }
 
   private async clearAction () {
@@ -436,8 +1781,12 @@ export class Playground extends LitElement {
             return; // Abort if user cancels
         }
     }
+    this.cancelAutoFix();
     this.setCode(this.defaultCode, null); // Reset code and active version
     this.messages = [];
+    this.versions = [];
+    this.diffFrom = null;
+    this.diffTo = null;
     this.codeHasChanged = true; // Default code is now loaded, but treated as "changed" from nothing
     if (this.resetHandler) {
       this.resetHandler();
@@ -453,16 +1802,145 @@ export class Playground extends LitElement {
 
     this.code = newCode // Update internal code state first
     this.codeHasChanged = true
+    // The user is taking over from a running auto-fix
+    if (this.autoFixRun) this.finishAutoFix('cancelled')
     this.codeNeedsReload = true
-    this.activeCodeVersionId = null // Editing breaks link to previous version
-
-    // Update syntax highlighting asynchronously
-    this.codeSyntax.innerHTML = await marked.parse(
-      '```javascript\n' + newCode + '\n```'
-    )
+    // activeVersionId is kept: the edits branch off the loaded version
     this.requestUpdate() // Ensure UI reflects changes (like tooltip)
   }
 
+  // --- Project files ---
+
+  /** All files of the project, main sketch first. */
+  get projectFileNames (): string[] {
+    return [MAIN_FILE, ...this.files.map(f => f.name)]
+  }
+
+  get activeFileContent (): string {
+    if (this.activeFile === MAIN_FILE) return this.code
+    return this.files.find(f => f.name === this.activeFile)?.content ?? ''
+  }
+
+  private fileEditedAction (name: string, content: string) {
+    if (this.chatState !== ChatState.IDLE) return
+    if (this.files.find(f => f.name === name)?.content === content) return
+
+    this.files = mergeFiles(this.files, [{ name, content }])
+    this.codeHasChanged = true
+    if (this.autoFixRun) this.finishAutoFix('cancelled')
+    this.codeNeedsReload = true
+  }
+
+  private addFileAction () {
+    const name = window
+      .prompt('File name, e.g. helpers.js, style.css or index.html:')
+      ?.trim()
+    if (!name) return
+    if (!isValidFileName(name)) {
+      window.alert(`"${name}" is not a valid file name.`)
+      return
+    }
+    if (!this.projectFileNames.includes(name)) {
+      this.fileEditedAction(name, newFileContent(name))
+    }
+    this.activeFile = name
+  }
+
+  private deleteFileAction (name: string) {
+    if (name === MAIN_FILE || this.chatState !== ChatState.IDLE) return
+    if (!window.confirm(`Delete ${name}?`)) return
+    this.files = this.files.filter(f => f.name !== name)
+    if (this.activeFile === name) this.activeFile = MAIN_FILE
+    this.codeHasChanged = true
+    this.codeNeedsReload = true
+  }
+
+  private renderFileTabs () {
+    const idle = this.chatState === ChatState.IDLE
+    return html`<div class="file-tabs">
+      ${map(
+        this.projectFileNames,
+        name => html`<div
+          class=${classMap({ 'file-tab': true, active: name === this.activeFile })}>
+          <button
+            class="file-tab-name"
+            title=${name === INDEX_FILE ? 'Page the sketch runs in' : name}
+            @click=${() => {
+              this.activeFile = name
+            }}>
+            ${name}
+          </button>
+          ${name !== MAIN_FILE
+            ? html`<button
+                class="file-tab-delete"
+                title="Delete file"
+                ?disabled=${!idle}
+                @click=${() => this.deleteFileAction(name)}>
+                ✕
+              </button>`
+            : ''}
+        </div>`
+      )}
+      <button
+        class="file-tab-add"
+        title="Add a file"
+        ?disabled=${!idle}
+        @click=${() => this.addFileAction()}>
+        +
+      </button>
+    </div>`
+  }
+
+  /** p5.js version and add-ons, in the Code tab. */
+  private renderLibraries () {
+    const idle = this.chatState === ChatState.IDLE
+    const release = P5_RELEASES[this.libraries.p5]
+    return html`<div class="library-bar">
+      <label title="p5.js version the code runs with">
+        p5.js
+        <select
+          ?disabled=${!idle}
+          @change=${(e: Event) => {
+            const p5 = Number((e.target as HTMLSelectElement).value) as P5Major
+            // Keep the add-ons the other release has too
+            const addons = this.libraries.addons.filter(id =>
+              P5_RELEASES[p5].addons.some(a => a.id === id)
+            )
+            this.setLibrariesAction({ p5, addons })
+          }}>
+          ${map(
+            Object.values(P5_RELEASES),
+            r => html`<option value=${r.major} ?selected=${r.major === release.major}>
+              ${r.version}
+            </option>`
+          )}
+        </select>
+      </label>
+      ${map(
+        release.addons,
+        addon => html`<label title=${addon.description}>
+          <input
+            type="checkbox"
+            ?disabled=${!idle}
+            .checked=${this.libraries.addons.includes(addon.id)}
+            @change=${(e: Event) => {
+              const addons = this.libraries.addons.filter(id => id !== addon.id)
+              if ((e.target as HTMLInputElement).checked) addons.push(addon.id)
+              this.setLibrariesAction({ ...this.libraries, addons })
+            }} />
+          ${addon.id}
+        </label>`
+      )}
+    </div>`
+  }
+
+  /** Run the code with other libraries. New versions record the choice. */
+  private setLibrariesAction (libraries: LibrarySelection) {
+    this.libraries = libraries
+    if (!sameLibraries(this.activeVersion?.libraries, libraries)) this.codeHasChanged = true
+    this.reloadCodeAction()
+  }
+
   private async inputKeyDownAction (e: KeyboardEvent) {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -478,82 +1956,321 @@ export class Playground extends LitElement {
     this.requestUpdate()
   }
 
-  private loadVersion (id: string) {
+  /** Run the sketch again with a new seed. */
+  private rerollSeedAction () {
+    this.seed = newSeed()
+    // Loading the version should show this result from now on
+    if (this.activeVersion && !this.codeHasChanged) {
+      this.updateVersion(this.activeVersion.id, { seed: this.seed })
+    }
+    this.reloadCodeAction()
+  }
+
+  private loadVersion (id: string): boolean {
     // Keep this check: User might edit *after* AI response/snapshot, then try to load an older version
-    if (this.codeHasChanged && this.activeCodeVersionId !== id) {
+    if (this.codeHasChanged) {
       const discardChanges = window.confirm(
         'You have unsaved changes in the code editor. Loading this version will discard your current edits. Are you sure you want to proceed?'
       )
       if (!discardChanges) {
         // User clicked Cancel, so do nothing.
         console.log('Load version cancelled by user.')
-        return
+        return false
       }
       // User clicked OK, proceed with loading.
     }
 
-    // Find the message and load the code (existing logic)
-    const message = this.messages.find(msg => msg.id === id)
-    if (message && message.code) {
-      console.log(`Loading code version from message ${id}`)
-      this.setCode(message.code, id) // Pass ID to track active version
+    const version = this.versions.find(v => v.id === id)
+    if (version) {
+      console.log(`Loading code version ${id}`)
+      // New prompts and edits now branch off this version
+      this.setCode(version.code, id)
       // Optionally switch to the code tab
       this.selectedChatTab = ChatTab.CODE
-    } else {
-      console.warn(`Could not find message or code for id: ${id}`)
+      return true
     }
+    console.warn(`Could not find code version for id: ${id}`)
+    return false
   }
 
-  private toggleThinking (id: string) {
-    this.messages = this.messages.map(msg =>
-      msg.id === id ? { ...msg, isThinkingOpen: !msg.isThinkingOpen } : msg
-    )
+  /** Open the diff panel comparing a version with the one it was derived from. */
+  private showChangesAction (id: string) {
+    const version = this.versions.find(v => v.id === id)
+    if (!version) return
+    this.diffFrom = version.parentId ?? DIFF_EDITOR
+    this.diffTo = id
   }
 
-  private downloadCodeAction() {
-    const codeToDownload = this.code;
-    if (!codeToDownload) {
-        console.warn("No code to download.");
-        // Optionally show a message to the user
-        return;
+  private diffSource (id: string | null) {
+    if (id === DIFF_EDITOR) return { code: this.code, label: 'Current editor' }
+    const version = this.versions.find(v => v.id === id)
+    return version
+      ? { code: version.code, label: versionTitle(version) }
+      : { code: '', label: '' }
+  }
+
+  /** Load the left-hand version into the editor so hunks can be merged into it. */
+  private mergeIntoLeftAction () {
+    if (!this.diffFrom || this.diffFrom === DIFF_EDITOR) return
+    if (this.loadVersion(this.diffFrom)) {
+      this.diffFrom = DIFF_EDITOR
     }
+  }
 
-    // 1. Create Timestamp
-    const now = new Date();
-    const timestamp = now.getFullYear().toString() +
-                      (now.getMonth() + 1).toString().padStart(2, '0') +
-                      now.getDate().toString().padStart(2, '0') + '-' +
-                      now.getHours().toString().padStart(2, '0') +
-                      now.getMinutes().toString().padStart(2, '0') +
-                      now.getSeconds().toString().padStart(2, '0');
+  /** Problems found in a message's code before it was run. */
+  private renderDiagnostics (msg: Message) {
+    const diagnostics = msg.diagnostics!
+    return html`<div class="diagnostics">
+      <ul>
+        ${map(
+          diagnostics,
+          d => html`<li class=${`diagnostic-${d.severity}`}>
+            <span class="diagnostic-location">${d.line}:${d.column}</span>
+            ${d.message}
+          </li>`
+        )}
+      </ul>
+      <button
+        class="improve-button"
+        @click=${() => this.sendMessageAction(validationPrompt(diagnostics), 'user')}>
+        Fix issues
+      </button>
+    </div>`
+  }
+
+  private renderDiffPanel () {
+    if (this.diffFrom === null || this.diffTo === null) return ''
+    const from = this.diffSource(this.diffFrom)
+    const to = this.diffSource(this.diffTo)
+    const options = (selected: string | null) => html`
+      <option value=${DIFF_EDITOR} ?selected=${selected === DIFF_EDITOR}>
+        Current editor
+      </option>
+      ${map(
+        [...this.versions].reverse(),
+        v => html`<option value=${v.id} ?selected=${selected === v.id}>
+          ${versionTitle(v)} (${new Date(v.createdAt).toLocaleTimeString()})
+        </option>`
+      )}
+    `
+    return html`<div class="diff-panel">
+      <div class="diff-panel-header">
+        <select
+          @change=${(e: Event) => {
+            this.diffFrom = (e.target as HTMLSelectElement).value
+          }}>
+          ${options(this.diffFrom)}
+        </select>
+        <span>→</span>
+        <select
+          @change=${(e: Event) => {
+            this.diffTo = (e.target as HTMLSelectElement).value
+          }}>
+          ${options(this.diffTo)}
+        </select>
+        ${this.diffFrom !== DIFF_EDITOR
+          ? html`<button
+              title="Load the left version into the editor and pick changes to merge"
+              @click=${() => this.mergeIntoLeftAction()}>
+              Merge into left
+            </button>`
+          : ''}
+        <button
+          class="diff-close"
+          title="Close diff"
+          @click=${() => {
+            this.diffFrom = null
+            this.diffTo = null
+          }}>
+          ✕
+        </button>
+      </div>
+      <gdm-diff-view
+        .oldCode=${from.code}
+        .newCode=${to.code}
+        .oldLabel=${from.label}
+        .newLabel=${to.label}
+        .mergeable=${this.diffFrom === DIFF_EDITOR &&
+        this.chatState === ChatState.IDLE}
+        @merge-code=${(e: CustomEvent) => {
+          this.codeEditedAction(e.detail.code)
+        }}></gdm-diff-view>
+    </div>`
+  }
+
+  /** Load a version and go back to the chat so the next prompt branches from it. */
+  private forkVersionAction (id: string) {
+    if (this.loadVersion(id)) {
+      this.selectedChatTab = ChatTab.GEMINI
+    }
+  }
+
+  private labelVersionAction (id: string) {
+    const version = this.versions.find(v => v.id === id)
+    if (!version) return
+    const label = window.prompt('Version label:', version.label ?? versionTitle(version))
+    if (label === null) return // Cancelled
+    this.updateVersion(id, { label: label.trim() || undefined })
+  }
 
-    // 2. Create Filename
-    const filename = `p5js-sketch-${timestamp}.js`;
+  private toggleStarAction (id: string) {
+    const version = this.versions.find(v => v.id === id)
+    if (version) {
+      this.updateVersion(id, { starred: !version.starred })
+    }
+  }
 
-    // 3. Create Blob
-    const blob = new Blob([codeToDownload], { type: 'text/javascript;charset=utf-8;' });
+  private toggleThinking (id: string) {
+    this.messages = this.messages.map(msg =>
+      msg.id === id ? { ...msg, isThinkingOpen: !msg.isThinkingOpen } : msg
+    )
+  }
 
-    // 4. Create Object URL
-    const url = URL.createObjectURL(blob);
+  /** Load a sketch from a .js file, a ZIP bundle or a p5.js web editor project. */
+  private async importAction (file: File) {
+    if (this.chatState !== ChatState.IDLE || this.importing) return
+    if (this.codeHasChanged && this.code !== this.defaultCode) {
+      const discardChanges = window.confirm(
+        'You have unsaved changes in the code editor. Importing will replace them. Are you sure?'
+      )
+      if (!discardChanges) return
+    }
 
-    // 5. Create Temporary Link
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", filename);
-    link.style.visibility = 'hidden'; // Hide the link
+    this.importing = true
+    try {
+      const imported = await importProject(file)
+      const assetFiles = imported.assets.map(a => new File([a.data], a.name, { type: a.data.type }))
+      const added = await this.addAssetsAction(assetFiles)
+      // Clashing names were changed; point the code at the stored assets
+      const renames: Record<string, string> = {}
+      for (const file of assetFiles) {
+        const asset = added.find(a => a.data === file)
+        if (asset) renames[file.name] = asset.name
+      }
+      const project = renameAssetReferences(imported, renames)
+      const messageId = this.generateId()
+      // Imports start a new line of versions
+      const versionId = this.addVersion({
+        code: project.code,
+        files: project.files,
+        author: 'import',
+        label: `Imported ${project.name}`,
+        parentId: null,
+        messageId
+      })
+      this.addMessage({
+        role: 'import',
+        text: importSummary(project),
+        code: project.code,
+        versionId,
+        id: messageId
+      })
+      this.cancelAutoFix()
+      await this.setCode(project.code, versionId)
+      this.selectedChatTab = ChatTab.CODE
+    } catch (e) {
+      console.error('Unable to import:', e)
+      window.alert(`Could not import ${file.name}: ${(e as Error).message}`)
+    } finally {
+      this.importing = false
+    }
+  }
 
-    // 6. Append, Click, Remove Link
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  /** Download the project as a ZIP that runs without the playground. */
+  private async exportProjectAction() {
+    if (!this.code) {
+        console.warn("No code to download.");
+        return;
+    }
+    if (this.exporting) return;
+
+    const filename = `p5js-sketch-${fileTimestamp()}.zip`;
+
+    // Bundle the project; prompts come from the versions leading to the code
+    this.exporting = true;
+    let blob: Blob;
+    try {
+      const prompts = ancestry(this.versions, this.activeVersionId)
+        .reverse()
+        .map(v => v.prompt)
+        .filter((prompt): prompt is string => !!prompt);
+      blob = await exportProject({
+        name: this.sessionName || 'p5.js sketch',
+        code: this.code,
+        files: this.files,
+        assets: this.assets,
+        prompts,
+        libraries: this.libraries,
+        seed: this.seed
+      });
+    } catch (e) {
+      console.error('Unable to export the project:', e);
+      window.alert(`Export failed: ${(e as Error).message}`);
+      return;
+    } finally {
+      this.exporting = false;
+    }
 
-    // 7. Revoke Object URL (important for memory management)
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
+    console.log(`Project downloaded as ${filename}`);
+  }
 
-    console.log(`Code downloaded as ${filename}`);
+  /** Branch view of the version tree; the active version's lineage is highlighted. */
+  private renderVersionTree () {
+    if (this.versions.length === 0) {
+      return html`<p class="versions-empty">No code versions yet.</p>`
+    }
+    const lineage = new Set(
+      ancestry(this.versions, this.activeVersionId).map(v => v.id)
+    )
+    return html`<ul class="version-tree">
+      ${map(
+        layoutVersions(this.versions),
+        ({ version, depth, isBranch }) => html`
+          <li
+            class=${classMap({
+              'version-node': true,
+              'branch-start': isBranch,
+              'on-active-path': lineage.has(version.id),
+              'active-version': version.id === this.activeVersionId
+            })}
+            style="--depth: ${depth}">
+            <button
+              class="version-star"
+              title=${version.starred ? 'Unstar' : 'Star'}
+              @click=${() => this.toggleStarAction(version.id)}>
+              ${version.starred ? '★' : '☆'}
+            </button>
+            <button
+              class="version-open"
+              title="Load this version"
+              @click=${() => this.loadVersion(version.id)}>
+              <span class="version-title">${versionTitle(version)}</span>
+              <span class="version-meta">
+                ${version.author} ·
+                ${new Date(version.createdAt).toLocaleTimeString()}
+              </span>
+            </button>
+            <button
+              class="version-fork"
+              title="Fork: load this version and prompt from it"
+              @click=${() => this.forkVersionAction(version.id)}>
+              Fork
+            </button>
+            <button
+              class="version-label"
+              title="Label this version"
+              @click=${() => this.labelVersionAction(version.id)}>
+              ${ICON_EDIT}
+            </button>
+          </li>
+        `
+      )}
+    </ul>`
   }
 
   render () {
+    const errorCount = this.consoleEntries.filter(e => e.level === 'error').length
     return html`<div class="playground">
       <div class="sidebar">
         <div class="selector">
@@ -584,6 +2301,59 @@ export class Playground extends LitElement {
                  : html``
              }
           </button>
+          <button
+            id="versionsTab"
+            class=${classMap({
+              'selected-tab': this.selectedChatTab === ChatTab.VERSIONS
+            })}
+            @click=${() => {
+              this.selectedChatTab = ChatTab.VERSIONS
+            }}>
+            Versions
+          </button>
+          <button
+            id="sessionsTab"
+            class=${classMap({
+              'selected-tab': this.selectedChatTab === ChatTab.SESSIONS
+            })}
+            @click=${() => {
+              this.selectedChatTab = ChatTab.SESSIONS
+            }}>
+            Sessions
+          </button>
+          <button
+            id="assetsTab"
+            class=${classMap({
+              'selected-tab': this.selectedChatTab === ChatTab.ASSETS
+            })}
+            @click=${() => {
+              this.selectedChatTab = ChatTab.ASSETS
+            }}>
+            Assets
+          </button>
+          <button
+            id="consoleTab"
+            class=${classMap({
+              'selected-tab': this.selectedChatTab === ChatTab.CONSOLE
+            })}
+            @click=${() => {
+              this.selectedChatTab = ChatTab.CONSOLE
+            }}>
+            Console
+            ${errorCount
+              ? html`<span class="console-badge">${errorCount}</span>`
+              : ''}
+          </button>
+          <button
+            id="settingsTab"
+            class=${classMap({
+              'selected-tab': this.selectedChatTab === ChatTab.SETTINGS
+            })}
+            @click=${() => {
+              this.selectedChatTab = ChatTab.SETTINGS
+            }}>
+            Settings
+          </button>
         </div>
         <div
           id="chat"
@@ -600,7 +2370,8 @@ export class Playground extends LitElement {
                   class=${classMap({ /* FIX 1: Combine static and dynamic classes */
                     turn: true,
                     [`role-${msg.role}`]: true, // Use computed property name for dynamic role class
-                    'active-code-version': msg.id === this.activeCodeVersionId
+                    'active-code-version':
+                      !!msg.versionId && msg.versionId === this.activeVersionId
                   })}
                 >
                   ${msg.thinkingText && msg.role === 'assistant'
@@ -619,15 +2390,34 @@ export class Playground extends LitElement {
                       `
                     : ''}
                   <div class="text">${unsafeHTML(msg.text)}</div>
-                  ${(msg.role === 'assistant' || msg.role === 'manual-snapshot') && msg.code
+                  ${(msg.role === 'assistant' || msg.role === 'manual-snapshot' || msg.role === 'import') && msg.versionId
                     ? html`
                         <button
                           class="load-version-button"
-                          @click=${() => this.loadVersion(msg.id)}
+                          @click=${() => this.loadVersion(msg.versionId!)}
                           title="Load this code version"
                         >
                           ${msg.role === 'manual-snapshot' ? ICON_SNAPSHOT : ICON_LOAD} Load Version
                         </button>
+                        <button
+                          class="load-version-button"
+                          @click=${() => this.showChangesAction(msg.versionId!)}
+                          title="Show what changed in this version"
+                        >
+                          Changes
+                        </button>
+                      `
+                    : ''}
+                  ${msg.diagnostics?.length ? this.renderDiagnostics(msg) : ''}
+                  ${msg.role === 'system-ask' && msg.errorLine
+                    ? html`
+                        <button
+                          class="jump-to-line"
+                          @click=${() => this.jumpToLineAction(msg.errorLine!, msg.errorColumn)}
+                          title="Show this line in the code"
+                        >
+                          Line ${msg.errorLine}
+                        </button>
                       `
                     : ''}
                   ${msg.role === 'system-ask'
@@ -670,6 +2460,15 @@ export class Playground extends LitElement {
                   : html``
               }
             </div>
+            <label class="auto-fix-toggle" title="Ask Gemini to fix runtime errors automatically">
+              <input
+                type="checkbox"
+                .checked=${this.autoFix}
+                @change=${(e: Event) => {
+                  this.toggleAutoFixAction((e.target as HTMLInputElement).checked)
+                }} />
+              Auto-fix errors
+            </label>
             <div id="inputArea">
               <textarea
                 id="messageInput"
@@ -682,23 +2481,36 @@ export class Playground extends LitElement {
                 }}
                 placeholder="Type your message..."
                 autocomplete="off" ></textarea>
-              <button
-                id="sendButton"
-                class=${classMap({
-                  disabled: this.chatState !== ChatState.IDLE
-                })}
-                @click=${() => {
-                  this.sendMessageAction()
-                }}>
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  height="30px"
-                  viewBox="0 -960 960 960"
-                  width="30px"
-                  fill="currentColor">
-                  <path d="M120-160v-240l320-80-320-80v-240l760 320-760 320Z" />
-                </svg>
-              </button>
+              ${this.chatState === ChatState.IDLE
+                ? html`<button
+                    id="sendButton"
+                    @click=${() => {
+                      this.sendMessageAction()
+                    }}>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      height="30px"
+                      viewBox="0 -960 960 960"
+                      width="30px"
+                      fill="currentColor">
+                      <path d="M120-160v-240l320-80-320-80v-240l760 320-760 320Z" />
+                    </svg>
+                  </button>`
+                : html`<button
+                    id="stopButton"
+                    title="Stop generating"
+                    @click=${() => {
+                      this.stopGenerationAction()
+                    }}>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      height="30px"
+                      viewBox="0 -960 960 960"
+                      width="30px"
+                      fill="currentColor">
+                      <path d="M320-320h320v-320H320v320ZM480-80q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Z" />
+                    </svg>
+                  </button>`}
             </div>
           </div>
         </div>
@@ -708,25 +2520,112 @@ export class Playground extends LitElement {
             tabcontent: true,
             showtab: this.selectedChatTab === ChatTab.CODE
           })}>
-          <div class="code-container">
-             <!-- Render syntax highlighting based on current code -->
-            ${this.codeSyntax}
-            <textarea
-              class="code-editor"
-              contenteditable=""
-              .value=${this.code} /* Bind directly to the code state */
-              .readonly=${this.chatState !== ChatState.IDLE}
-              @input=${(e: InputEvent) => {
-                // Use input for immediate feedback
-                this.codeEditedAction((e.target as HTMLTextAreaElement).value)
-              }}
-             ></textarea>
+          ${this.renderFileTabs()}
+          ${this.renderLibraries()}
+          <gdm-code-editor
+            .path=${this.activeFile}
+            .value=${this.activeFileContent}
+            .readonly=${this.chatState !== ChatState.IDLE}
+            .errorLine=${this.activeFile === MAIN_FILE ? this.errorLine : null}
+            .streaming=${this.codeStreaming}
+            .libraries=${this.libraries}
+            @code-change=${(e: CustomEvent) => {
+              if (this.activeFile === MAIN_FILE) {
+                this.codeEditedAction(e.detail.code)
+              } else {
+                this.fileEditedAction(this.activeFile, e.detail.code)
+              }
+            }}
+          ></gdm-code-editor>
+        </div>
+        <div
+          id="versions"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.VERSIONS
+          })}>
+          ${this.renderVersionTree()}
+        </div>
+        <div
+          id="sessions"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.SESSIONS
+          })}>
+          <div class="sessions-header">
+            <button
+              class="new-session-button"
+              @click=${() => {
+                this.newSessionAction()
+              }}>
+              New session
+            </button>
           </div>
+          <ul class="session-list">
+            ${map(
+              this.sessions,
+              session => html`
+                <li
+                  class=${classMap({
+                    'session-item': true,
+                    'active-session': session.id === this.sessionId
+                  })}>
+                  <button
+                    class="session-open"
+                    title="Open this session"
+                    @click=${() => this.switchSessionAction(session.id)}>
+                    <span class="session-name">${session.name}</span>
+                    <span class="session-date">
+                      ${new Date(session.updatedAt).toLocaleString()}
+                    </span>
+                  </button>
+                  <div class="session-actions">
+                    <button @click=${() => this.renameSessionAction(session.id)}>
+                      Rename
+                    </button>
+                    <button @click=${() => this.duplicateSessionAction(session.id)}>
+                      Duplicate
+                    </button>
+                    <button @click=${() => this.deleteSessionAction(session.id)}>
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              `
+            )}
+          </ul>
+        </div>
+        <div
+          id="assets"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.ASSETS
+          })}>
+          ${this.renderAssets()}
+        </div>
+        <div
+          id="console"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.CONSOLE
+          })}>
+          ${this.renderConsole()}
+        </div>
+        <div
+          id="settings"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.SETTINGS
+          })}>
+          ${this.renderSettings()}
         </div>
       </div>
 
       <div class="main-container">
         ${this.previewFrame}
+        ${this.renderParams()}
+        ${this.renderDiffPanel()}
+        ${this.renderPreviewBar()}
         <div class="toolbar">
            <button
             id="reloadCode"
@@ -790,10 +2689,72 @@ export class Playground extends LitElement {
             </svg>
           </button>
 
+          <button
+            id="record"
+            class=${classMap({ recording: !!this.recording })}
+            @click=${() => { this.recordAction(); }}
+            title=${this.recording
+              ? 'Stop recording'
+              : `Record the canvas: ${RECORD_FORMAT_LABELS[this.settings.record.format]}`} >
+            ${ICON_RECORD}
+            <div class="button-label">
+              <p>${!this.recording
+                ? 'Record'
+                : this.recording.format === 'webm'
+                  ? 'Stop'
+                  : `${this.recording.frame}/${this.recording.frames}`}</p>
+            </div>
+          </button>
+
+          <button
+            id="seed"
+            @click=${() => { this.rerollSeedAction(); }}
+            title="Seed of random() and noise(). Click to run with a new one" >
+            ${ICON_DICE}
+            <div class="button-label">
+              <p>${this.seed}</p>
+            </div>
+          </button>
+          <button
+            id="pinSeed"
+            class=${classMap({ disabled: !this.seedPinned })}
+            @click=${() => { this.seedPinned = !this.seedPinned; }}
+            title=${this.seedPinned
+              ? 'New code runs with this seed. Click to give new code new seeds'
+              : 'Keep this seed for new code'} >
+            ${ICON_PIN}
+            <div class="button-label">
+              <p>${this.seedPinned ? 'Pinned' : 'Pin seed'}</p>
+            </div>
+          </button>
+
+          <button
+            id="importCode"
+            class=${classMap({ disabled: this.importing })}
+            @click=${() => { this.importInput.click(); }}
+            title="Import a .js file, a ZIP bundle or a p5.js web editor project" >
+            ${ICON_UPLOAD}
+            <div class="button-label">
+              <p>Import</p>
+            </div>
+          </button>
+          <input
+            id="importFile"
+            type="file"
+            accept=".js,.zip,.json"
+            hidden
+            @change=${(e: Event) => {
+              const input = e.target as HTMLInputElement
+              const file = input.files?.[0]
+              input.value = ''
+              if (file) this.importAction(file)
+            }} />
+
           <button
             id="downloadCode"
-            @click=${() => { this.downloadCodeAction(); }}
-            title="Download sketch code" >
+            class=${classMap({ disabled: this.exporting })}
+            @click=${() => { this.exportProjectAction(); }}
+            title="Download the project as a runnable ZIP" >
             ${ICON_DOWNLOAD}
             <div class="button-label">
               <p>Download</p>
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+/** What the preview reports about the running sketch, a few times a second. */
+export interface PreviewStats {
+  fps: number // Frames drawn per second, measured
+  frameTime: number // Milliseconds spent in draw(), averaged
+  frame: number // frameCount
+  width: number // Canvas size, in CSS pixels
+  height: number
+  stepped: boolean // Time follows frames, after stepping or jumping to a frame
+}
+
+/** Jumps go no further than this, to keep the preview responsive. */
+export const MAX_SEEK_FRAME = 100000
+
+/** Options for the control script of a preview run. */
+export interface PreviewControlOptions {
+  frameRate: number | null // Target frame rate, or the sketch's own
+  seekFrame: number | null // Fast-forward to this frame, then pause
+  capturing: boolean // A GIF or PNG recording drives the clock, see recorderScript
+}
+
+/**
+ * Runs in the sketch iframe after p5 is loaded. Picks up the p5 instance as
+ * it is created and announces it with a 'ready' message, then handles the
+ * playground's commands:
+ * - 'stop' and 'resume' pause and resume the draw loop;
+ * - 'step' pauses and draws one frame;
+ * - 'frame-rate' sets the target frame rate;
+ * - 'seek' fast-forwards to a later frame and pauses;
+ * - 'get-state' answers with the sketch's SketchState.
+ *
+ * Once stepped, millis() and deltaTime follow the frame count at the target
+ * frame rate instead of the clock, so the same frame always looks the same.
+ * With `seekFrame` the sketch runs that way from its first frame. While
+ * `capturing`, the recorder owns the clock and it is left alone. Stats are
+ * posted as 'metrics' messages.
+ */
+export function previewControlScript (options: PreviewControlOptions) {
+  return `(() => {
+  const options = ${JSON.stringify(options)};
+  const preview = window.playgroundPreview;
+  const sketch = () => window.theSketchInstance || (window.p5 && window.p5.instance);
+  if (typeof p5 !== 'function') return;
+  const realMillis = p5.prototype.millis;
+
+  let frameRate = options.frameRate;
+  let ownRate = null; // The sketch's own target, while overridden
+  let frameTime = 1000 / (frameRate || 60);
+  // While stepped, frame n is drawn at base.time + (n - base.frame) * frameTime
+  let stepped = options.seekFrame !== null;
+  let base = { frame: 1, time: 0 };
+  let offset = 0; // Added to the clock after leaving stepped mode
+  let now = 0;
+
+  let drawStart = 0;
+  let drawTotal = 0;
+  let drawCount = 0;
+  let frames = [];
+
+  p5.prototype.registerMethod('init', function () {
+    window.theSketchInstance = this;
+    preview.post('ready', { mode: this._isGlobal ? 'global' : 'instance' });
+  });
+  p5.prototype.registerMethod('pre', function () {
+    if (frameRate && this._targetFrameRate !== frameRate) {
+      if (ownRate === null) ownRate = this._targetFrameRate;
+      this.frameRate(frameRate);
+    }
+    drawStart = performance.now();
+    if (options.capturing) return;
+    if (stepped) {
+      now = base.time + (this.frameCount - base.frame) * frameTime;
+      this._setProperty('deltaTime', frameTime);
+    } else {
+      now = realMillis.call(this) + offset;
+    }
+    const clock = stepped ? () => now : () => realMillis.call(this) + offset;
+    this.millis = clock;
+    // p5.js 2.x makes its globals read-only
+    if (this._isGlobal) Object.defineProperty(window, 'millis', { value: clock, configurable: true, writable: true });
+  });
+  p5.prototype.registerMethod('post', function () {
+    drawTotal += performance.now() - drawStart;
+    drawCount++;
+    frames.push(performance.now());
+    if (options.seekFrame !== null && this.frameCount === 1) {
+      this.noLoop();
+      const target = options.seekFrame;
+      options.seekFrame = null;
+      setTimeout(() => fastForward(target));
+    }
+  });
+
+  const metrics = () => {
+    const instance = sketch();
+    if (!instance) return;
+    const since = performance.now() - 1000;
+    frames = frames.filter((t) => t > since);
+    preview.post('metrics', {
+      stats: {
+        fps: frames.length,
+        frameTime: drawCount ? drawTotal / drawCount : 0,
+        frame: instance.frameCount,
+        width: instance.width,
+        height: instance.height,
+        stepped
+      }
+    });
+    drawTotal = 0;
+    drawCount = 0;
+  };
+  setInterval(metrics, 500);
+
+  const enterStepped = (instance) => {
+    instance.noLoop();
+    if (stepped) return;
+    stepped = true;
+    base = { frame: instance.frameCount, time: now };
+  };
+
+  // Draw frames in slices so the page stays responsive during long jumps.
+  // redraw() is async in p5.js 2.x.
+  const fastForward = async (target) => {
+    const instance = sketch();
+    if (!instance) return;
+    enterStepped(instance);
+    const sliceEnd = performance.now() + 50;
+    while (instance.frameCount < target && performance.now() < sliceEnd) {
+      await instance.redraw();
+    }
+    if (instance.frameCount < target) {
+      setTimeout(() => fastForward(target));
+    } else {
+      metrics();
+    }
+  };
+
+  // Commands only arrive once the instance exists, see 'ready'
+  preview.on('stop', () => {
+    sketch().noLoop();
+  });
+  preview.on('resume', () => {
+    const instance = sketch();
+    if (stepped) {
+      // Carry on from the stepped time
+      stepped = false;
+      offset = now - realMillis.call(instance);
+    }
+    instance.loop();
+  });
+  preview.on('step', () => {
+    const instance = sketch();
+    enterStepped(instance);
+    instance.redraw();
+    metrics();
+  });
+  preview.on('frame-rate', (data) => {
+    const instance = sketch();
+    if (data.fps) {
+      if (ownRate === null) ownRate = instance._targetFrameRate;
+      instance.frameRate(data.fps);
+    } else if (ownRate !== null) {
+      // Back to the rate the sketch asked for
+      instance.frameRate(ownRate);
+      ownRate = null;
+    }
+    frameRate = data.fps;
+    if (stepped) base = { frame: instance.frameCount, time: now };
+    frameTime = 1000 / (instance._targetFrameRate || 60);
+  });
+  preview.on('seek', (data) => {
+    fastForward(Math.min(data.frame, ${MAX_SEEK_FRAME}));
+  });
+  preview.on('get-state', () => {
+    const instance = sketch();
+    return {
+      frame: instance.frameCount,
+      looping: instance.isLooping(),
+      stepped,
+      frameRate: frameRate || instance._targetFrameRate || 60,
+      width: instance.width,
+      height: instance.height
+    };
+  });
+})();`
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { ParamValue } from './params'
+import type { PreviewStats } from './preview-controls'
+import type { ConsoleLevel } from './sketch-console'
+
+/**
+ * Messages between the playground and the sketch iframe carry this protocol
+ * name and version, so anything else posted to either window is ignored.
+ */
+export const PREVIEW_PROTOCOL = 'p5js-playground-preview'
+export const PREVIEW_PROTOCOL_VERSION = 1
+
+/** Commands the playground sends to the sketch. */
+export type PreviewCommand =
+  | { command: 'stop' }
+  | { command: 'resume' }
+  | { command: 'step' }
+  | { command: 'frame-rate'; fps: number | null }
+  | { command: 'seek'; frame: number }
+  | { command: 'set-param'; name: string; value: ParamValue }
+  | { command: 'record-start'; fps: number }
+  | { command: 'record-stop' }
+  | { command: 'get-state' }
+
+/** Answer to 'get-state'. */
+export interface SketchState {
+  frame: number
+  looping: boolean
+  stepped: boolean
+  frameRate: number // Target frame rate
+  width: number
+  height: number
+}
+
+/** Events from the recorder. */
+export type RecorderEvent =
+  | { event: 'recording'; blob: Blob } // WebM video, after 'record-stop'
+  | { event: 'record-frame'; frame: number; image: ImageData }
+  | { event: 'record-done' }
+  | { event: 'record-error'; message: string }
+
+/** Messages the sketch sends to the playground. */
+export type SketchMessage =
+  | { kind: 'ready'; mode: 'instance' | 'global' } // The p5 instance was created
+  | { kind: 'log'; entries: Array<{ level: ConsoleLevel; message: string; stack?: string; time: number }> }
+  | { kind: 'error'; message: string; stack?: string; line?: number; column?: number }
+  | { kind: 'metrics'; stats: PreviewStats }
+  | ({ kind: 'event' } & RecorderEvent)
+  | { kind: 'response'; replyTo: number; result?: unknown; error?: string }
+
+/**
+ * Runs first in the sketch iframe and defines `window.playgroundPreview`,
+ * which the other preview scripts use to talk to the playground:
+ * - post(kind, payload) sends a message;
+ * - on(command, handler) handles a command. Commands sent with an id get a
+ *   response with the handler's return value, or its error.
+ * Only commands from the parent window are handled.
+ */
+export const PREVIEW_PROTOCOL_SCRIPT = `(() => {
+  const protocol = ${JSON.stringify(PREVIEW_PROTOCOL)};
+  const version = ${PREVIEW_PROTOCOL_VERSION};
+  const handlers = {};
+  const post = (kind, payload) => {
+    parent.postMessage({ protocol, version, kind, ...payload }, '*');
+  };
+  window.playgroundPreview = {
+    post,
+    on: (command, handler) => {
+      (handlers[command] = handlers[command] || []).push(handler);
+    }
+  };
+  window.addEventListener('message', (event) => {
+    const data = event.data;
+    if (event.source !== parent || !data || data.protocol !== protocol) return;
+    if (data.kind !== 'command') return;
+    let result;
+    let error;
+    if (data.version !== version) {
+      error = 'Unsupported protocol version ' + data.version;
+    } else if (!handlers[data.command]) {
+      error = 'Unknown command ' + data.command;
+    } else {
+      try {
+        for (const handler of handlers[data.command]) {
+          const value = handler(data);
+          if (value !== undefined) result = value;
+        }
+      } catch (e) {
+        error = String(e);
+      }
+    }
+    if (error && data.id === undefined) console.warn(error);
+    if (data.id !== undefined) post('response', { replyTo: data.id, result, error });
+  });
+})();`
+
+/** Requests wait this long for a response. */
+const REQUEST_TIMEOUT = 2000
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * The playground's end of the protocol, for one preview iframe. Commands
+ * sent before the sketch's 'ready' message are queued until it arrives.
+ */
+export class PreviewChannel {
+  private ready = false
+  private queue: Array<{ command: PreviewCommand; id?: number }> = []
+  private nextId = 1
+  private readonly pending = new Map<number, PendingRequest>()
+
+  constructor (private readonly frame: HTMLIFrameElement) {}
+
+  /** A new document is loading: forget the old one. */
+  reset () {
+    this.ready = false
+    this.queue = []
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer)
+      request.reject(new Error('The sketch was reloaded'))
+    }
+    this.pending.clear()
+  }
+
+  send (command: PreviewCommand) {
+    this.dispatch(command)
+  }
+
+  /** Send a command and wait for the sketch's answer. */
+  request<T> (command: PreviewCommand): Promise<T> {
+    const id = this.nextId++
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`No answer to ${command.command}`))
+      }, REQUEST_TIMEOUT)
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer })
+      this.dispatch(command, id)
+    })
+  }
+
+  private dispatch (command: PreviewCommand, id?: number) {
+    if (!this.ready) {
+      this.queue.push({ command, id })
+      return
+    }
+    this.frame.contentWindow?.postMessage(
+      {
+        protocol: PREVIEW_PROTOCOL,
+        version: PREVIEW_PROTOCOL_VERSION,
+        kind: 'command',
+        id,
+        ...command
+      },
+      '*'
+    )
+  }
+
+  /**
+   * Check a message event: returns the message if it comes from this
+   * preview and speaks the protocol, null otherwise. Handshakes and
+   * responses are handled here.
+   */
+  receive (event: MessageEvent): SketchMessage | null {
+    if (event.source !== this.frame.contentWindow) return null
+    const data = event.data
+    if (!data || typeof data !== 'object' || data.protocol !== PREVIEW_PROTOCOL) return null
+    if (data.version !== PREVIEW_PROTOCOL_VERSION) {
+      console.warn(`Ignoring preview message with protocol version ${data.version}`)
+      return null
+    }
+    const message = data as SketchMessage
+    if (message.kind === 'ready') {
+      this.ready = true
+      const queued = this.queue
+      this.queue = []
+      for (const { command, id } of queued) this.dispatch(command, id)
+    } else if (message.kind === 'response') {
+      const request = this.pending.get(message.replyTo)
+      if (request) {
+        this.pending.delete(message.replyTo)
+        clearTimeout(request.timer)
+        if (message.error) {
+          request.reject(new Error(message.error))
+        } else {
+          request.resolve(message.result)
+        }
+      }
+    }
+    return message
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import { P5_COMPAT_SCRIPT } from './libraries'
+import { assembleProject, mergeFiles } from './project'
+import { seedScript } from './seed'
+
+const harness = {
+  head: [
+    '<script src="lib/p5.min.js"></script>',
+    `<script>${P5_COMPAT_SCRIPT}</script>`,
+    `<script>${seedScript(42)}</script>`
+  ].join('\n'),
+  sketch: '<script>/* sketch */</script>'
+}
+
+describe('assembleProject', () => {
+  it('puts the harness first in the head, with p5, the compat script and the seed in order', () => {
+    const html = assembleProject([], harness)
+    const head = html.slice(html.indexOf('<head>'), html.indexOf('</head>'))
+    const p5 = head.indexOf('lib/p5.min.js')
+    const compat = head.indexOf(P5_COMPAT_SCRIPT)
+    const seed = head.indexOf('const seed = 42;')
+    expect(p5).toBeGreaterThan(-1)
+    expect(compat).toBeGreaterThan(p5)
+    expect(seed).toBeGreaterThan(compat)
+    expect(html.indexOf('/* sketch */')).toBeGreaterThan(html.indexOf('</head>'))
+  })
+
+  it("replaces the page's own p5 scripts and inlines project files", () => {
+    const page = `<html><head>
+<script src="https://cdn.example/p5.min.js"></script>
+<script src="p5.sound.min.js"></script>
+<link rel="stylesheet" href="style.css">
+</head><body>
+<script src="helpers.js"></script>
+<script src="sketch.js"></script>
+</body></html>`
+    const html = assembleProject(
+      [
+        { name: 'index.html', content: page },
+        { name: 'style.css', content: 'body { margin: 0 }' },
+        { name: 'helpers.js', content: 'const helper = 1' }
+      ],
+      harness
+    )
+    expect(html).not.toContain('cdn.example')
+    expect(html).not.toContain('p5.sound.min.js')
+    expect(html).toContain('<style>\nbody { margin: 0 }\n</style>')
+    expect(html.indexOf('const helper = 1')).toBeLessThan(html.indexOf('/* sketch */'))
+    expect(html.match(/\/\* sketch \*\//g)).toHaveLength(1)
+  })
+
+  it('links files instead when not inlining', () => {
+    const html = assembleProject([{ name: 'helpers.js', content: 'const helper = 1' }], harness, { inline: false })
+    expect(html).toContain('<script src="helpers.js"></script>')
+    expect(html).not.toContain('const helper = 1')
+  })
+})
+
+describe('mergeFiles', () => {
+  it('replaces files by name and keeps them sorted', () => {
+    const merged = mergeFiles(
+      [{ name: 'b.js', content: 'old' }, { name: 'style.css', content: '' }],
+      [{ name: 'b.js', content: 'new' }, { name: 'a.js', content: '' }]
+    )
+    expect(merged.map(f => [f.name, f.content])).toEqual([['a.js', ''], ['b.js', 'new'], ['style.css', '']])
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { BlockLanguage } from './extract'
+
+/** A file of a sketch project other than the main sketch. */
+export interface ProjectFile {
+  name: string // Plain file name, e.g. "helpers.js"; projects have no folders
+  content: string
+}
+
+/** The main sketch. Its code is kept apart from the other project files. */
+export const MAIN_FILE = 'sketch.js'
+export const INDEX_FILE = 'index.html'
+
+/** Page used when the project has no index.html of its own. */
+export const DEFAULT_INDEX_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>p5.js Sketch</title>
+  <style>
+    body { margin: 0; overflow: hidden; display: flex; justify-content: center; align-items: center; height: 100vh; background-color: #f8f9fa; }
+    main { display: flex; justify-content: center; align-items: center; }
+  </style>
+</head>
+<body>
+  <script src="${MAIN_FILE}"></script>
+</body>
+</html>
+`
+
+const FILE_NAME_RE = /^[\w-][\w.-]*\.\w+$/
+
+const EXTENSIONS: Record<string, BlockLanguage> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  glsl: 'glsl',
+  vert: 'glsl',
+  frag: 'glsl'
+}
+
+/** Whether a name can be used for a project file. */
+export function isValidFileName (name: string) {
+  return FILE_NAME_RE.test(name)
+}
+
+export function fileLanguage (name: string): BlockLanguage {
+  return EXTENSIONS[name.split('.').pop()!.toLowerCase()] ?? 'other'
+}
+
+/** Starting content for a new file. */
+export function newFileContent (name: string) {
+  return name === INDEX_FILE ? DEFAULT_INDEX_HTML : ''
+}
+
+/** Replace files with updated ones of the same name and add new ones. */
+export function mergeFiles (files: ProjectFile[], updates: ProjectFile[]) {
+  const merged = files.filter(f => !updates.some(u => u.name === f.name))
+  return [...merged, ...updates].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function sameFiles (a: ProjectFile[] = [], b: ProjectFile[] = []) {
+  return (
+    a.length === b.length &&
+    a.every((f, i) => f.name === b[i].name && f.content === b[i].content)
+  )
+}
+
+/** Markup the preview puts around the project. */
+export interface PreviewHarness {
+  head: string // Goes first in <head>: console hooks, p5 itself
+  sketch: string // Script running the main sketch
+}
+
+const SCRIPT_SRC_RE = /<script\b[^>]*\bsrc\s*=\s*["']([^"']+)["'][^>]*>\s*<\/script>/gi
+const STYLESHEET_RE = /<link\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>/gi
+// p5 and its add-ons are provided by the harness
+const P5_LIBRARY_RE = /(^|\/)p5(\.sound|\.webgpu)?(\.min)?\.js$/
+
+/** Project file name referenced by a src or href, if it is one. */
+function localName (url: string) {
+  const name = url.replace(/^\.\//, '').replace(/[?#].*$/, '')
+  return isValidFileName(name) ? name : null
+}
+
+function inlineScript (code: string) {
+  return `<script>\n${code.replace(/<\/script/gi, '<\\/script')}\n</script>`
+}
+
+/**
+ * Build the preview page from the project's index.html (or the default one).
+ * Scripts and style sheets that reference project files are inlined, the
+ * main sketch runs inside the harness, and project files the page doesn't
+ * reference are included anyway: styles at the end of the head, scripts just
+ * before the sketch. Shader files become `<script type="x-shader/...">`
+ * elements with the file name as id.
+ *
+ * With `inline` off, files stay separate and are linked instead, for a page
+ * served next to them, e.g. in an exported project.
+ */
+export function assembleProject (
+  files: ProjectFile[],
+  harness: PreviewHarness,
+  { inline = true } = {}
+) {
+  const byName = new Map(files.map(f => [f.name, f]))
+  const page = byName.get(INDEX_FILE)?.content ?? DEFAULT_INDEX_HTML
+
+  const referenced = new Set<string>()
+  for (const match of page.matchAll(SCRIPT_SRC_RE)) referenced.add(localName(match[1]) ?? '')
+  for (const match of page.matchAll(STYLESHEET_RE)) referenced.add(localName(match[1]) ?? '')
+
+  let head = harness.head
+  let styles = ''
+  let scripts = ''
+  for (const file of files) {
+    const language = fileLanguage(file.name)
+    if (language === 'glsl') {
+      const kind = /\.vert$/.test(file.name) ? 'vertex' : 'fragment'
+      head += `\n<script type="x-shader/x-${kind}" id="${file.name}">${file.content}</script>`
+    } else if (referenced.has(file.name)) {
+      continue
+    } else if (language === 'css') {
+      styles += inline
+        ? `<style>\n${file.content}\n</style>\n`
+        : `<link rel="stylesheet" href="${file.name}">\n`
+    } else if (language === 'javascript') {
+      scripts += inline
+        ? inlineScript(file.content) + '\n'
+        : `<script src="${file.name}"></script>\n`
+    }
+  }
+  const sketch = scripts + harness.sketch
+
+  let html = page
+    .replace(SCRIPT_SRC_RE, (tag, src: string) => {
+      if (P5_LIBRARY_RE.test(src)) return ''
+      const name = localName(src)
+      if (name === MAIN_FILE) return sketch
+      const file = name && byName.get(name)
+      return inline && file && fileLanguage(file.name) === 'javascript'
+        ? inlineScript(file.content)
+        : tag
+    })
+    .replace(STYLESHEET_RE, (tag, href: string) => {
+      const name = localName(href)
+      const file = name && byName.get(name)
+      return inline && file && /\brel\s*=\s*["']?stylesheet/i.test(tag)
+        ? `<style>\n${file.content}\n</style>`
+        : tag
+    })
+
+  html = /<head\b[^>]*>/i.test(html)
+    ? html.replace(/<head\b[^>]*>/i, tag => `${tag}\n${head}`)
+    : head + '\n' + html
+  html = /<\/head>/i.test(html)
+    ? html.replace(/<\/head>/i, () => `${styles}</head>`)
+    : styles + html
+  if (!referenced.has(MAIN_FILE)) {
+    html = /<\/body>/i.test(html)
+      ? html.replace(/<\/body>/i, () => `${sketch}\n</body>`)
+      : html + '\n' + sketch
+  }
+  return html
+}
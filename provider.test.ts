@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import { abortable, CodeFenceSplitter, StreamPart } from './provider'
+
+const fence = '```'
+const response = `Here is a sketch:\n${fence}javascript\nnew p5((p) => {})\n${fence}\nEnjoy!`
+
+/** Feed `text` to a splitter in chunks of `size` and merge parts of the same type. */
+function split (text: string, size: number) {
+  const splitter = new CodeFenceSplitter()
+  const parts: StreamPart[] = []
+  for (let i = 0; i < text.length; i += size) parts.push(...splitter.push(text.slice(i, i + size)))
+  parts.push(...splitter.flush())
+  return parts.reduce<StreamPart[]>((merged, part) => {
+    const last = merged[merged.length - 1]
+    if (last && last.type === part.type) last.text += part.text
+    else merged.push({ ...part })
+    return merged
+  }, [])
+}
+
+describe('CodeFenceSplitter', () => {
+  it('splits text and code however the response is chunked', () => {
+    const expected = [
+      { type: 'text', text: 'Here is a sketch:\n' },
+      { type: 'code', text: `${fence}javascript\nnew p5((p) => {})\n${fence}\n` },
+      { type: 'text', text: 'Enjoy!' }
+    ]
+    for (const size of [1, 2, 3, 7, 100]) expect(split(response, size), `chunks of ${size}`).toEqual(expected)
+  })
+
+  it('holds back a partial line until it is complete', () => {
+    const splitter = new CodeFenceSplitter()
+    expect(splitter.push('Intro\n`')).toEqual([{ type: 'text', text: 'Intro\n' }])
+    expect(splitter.push('``js\nlet a')).toEqual([{ type: 'code', text: `${fence}js\n` }])
+    expect(splitter.flush()).toEqual([{ type: 'code', text: 'let a' }])
+  })
+})
+
+describe('abortable', () => {
+  it('passes parts through until the signal fires', async () => {
+    const controller = new AbortController()
+    let release = () => {}
+    async function * parts () {
+      yield 1
+      yield 2
+      await new Promise<void>(resolve => { release = resolve }) // Stalls like a slow stream
+      yield 3
+    }
+    const seen: number[] = []
+    for await (const part of abortable(parts(), controller.signal)) {
+      seen.push(part)
+      if (part === 2) setTimeout(() => controller.abort())
+    }
+    expect(seen).toEqual([1, 2])
+    release()
+  })
+
+  it('yields nothing when already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const seen: number[] = []
+    for await (const part of abortable((async function * () { yield 1 })(), controller.signal)) seen.push(part)
+    expect(seen).toEqual([])
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { ConversationTurn } from './history'
+
+export type StreamPartType = 'thinking' | 'text' | 'code'
+
+/**
+ * A piece of a streamed response. Code parts hold fenced code blocks,
+ * including the fence lines, so joining the text and code parts gives back
+ * the raw markdown response.
+ */
+export interface StreamPart {
+  type: StreamPartType
+  text: string
+}
+
+/** Per-chat generation settings; unset fields use the provider's defaults. */
+export interface GenerationOptions {
+  model?: string
+  temperature?: number
+  thinking?: boolean // Let the model think before answering, and stream its thoughts
+  thinkingBudget?: number // Thinking tokens; unset lets the model decide
+}
+
+export interface ChatConfig {
+  systemInstruction: string
+  history: ConversationTurn[] // Earlier turns, oldest first
+  generation?: GenerationOptions
+}
+
+/** A conversation with a model, seeded with its history. */
+export interface ProviderChat {
+  /** Stream the response. Aborting `signal` cancels the request where the provider can. */
+  sendMessageStream (message: string, signal?: AbortSignal): AsyncIterable<StreamPart>
+}
+
+/** A source of model responses: a hosted API, a local server or a mock. */
+export interface ModelProvider {
+  readonly name: string
+  createChat (config: ChatConfig): ProviderChat
+  /** Forget any provider state, e.g. when the playground is cleared. */
+  reset (): void
+}
+
+/**
+ * Iterate a stream until `signal` is aborted. Iteration stops as soon as the
+ * signal fires, without waiting for the next part to arrive.
+ */
+export async function * abortable<T> (
+  iterable: AsyncIterable<T>,
+  signal: AbortSignal
+): AsyncIterable<T> {
+  const iterator = iterable[Symbol.asyncIterator]()
+  const aborted = new Promise<IteratorResult<T>>(resolve => {
+    const stop = () => resolve({ done: true, value: undefined })
+    if (signal.aborted) stop()
+    signal.addEventListener('abort', stop, { once: true })
+  })
+  try {
+    while (true) {
+      const next = iterator.next()
+      next.catch(() => {}) // Errors after an abort are of no interest
+      const result = await Promise.race([next, aborted])
+      if (result.done) return
+      yield result.value
+    }
+  } finally {
+    if (signal.aborted) iterator.return?.()?.catch(() => {})
+  }
+}
+
+/**
+ * Splits streamed response text into text and code parts. Text is emitted a
+ * line at a time so fence lines split across chunks are recognised.
+ */
+export class CodeFenceSplitter {
+  private buffer = ''
+  private inCode = false
+
+  push (chunk: string): StreamPart[] {
+    this.buffer += chunk
+    const parts: StreamPart[] = []
+    let end = this.buffer.indexOf('\n')
+    while (end >= 0) {
+      this.emitLine(this.buffer.slice(0, end + 1), parts)
+      this.buffer = this.buffer.slice(end + 1)
+      end = this.buffer.indexOf('\n')
+    }
+    return parts
+  }
+
+  /** Emit whatever is left once the response is complete. */
+  flush (): StreamPart[] {
+    const parts: StreamPart[] = []
+    if (this.buffer) this.emitLine(this.buffer, parts)
+    this.buffer = ''
+    return parts
+  }
+
+  private emitLine (line: string, parts: StreamPart[]) {
+    const isFence = line.trimStart().startsWith('```')
+    const type = this.inCode || isFence ? 'code' : 'text'
+    if (isFence) this.inCode = !this.inCode
+
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += line
+    } else {
+      parts.push({ type, text: line })
+    }
+  }
+}
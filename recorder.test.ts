@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { previewControlScript } from './preview-controls'
+import { recorderScript } from './recorder'
+
+type Hook = (this: FakeP5) => void
+
+/** Just enough of p5 for the preview scripts: hooks run in the order they were registered. */
+class FakeP5 {
+  static hooks: Record<string, Hook[]> = {}
+  frameCount = 0
+  width = 4
+  height = 2
+  canvas = {}
+  deltaTime = 0
+  looping = true
+  _isGlobal = false
+  _targetFrameRate = 60
+  draw: () => void = () => {}
+
+  constructor (sketch: (p: FakeP5) => void) {
+    sketch(this)
+    FakeP5.run('init', this)
+  }
+
+  static run (name: string, instance: FakeP5) {
+    for (const hook of FakeP5.hooks[name] ?? []) hook.call(instance)
+  }
+
+  registerMethod (name: string, hook: Hook) {
+    if (!FakeP5.hooks[name]) FakeP5.hooks[name] = []
+    FakeP5.hooks[name].push(hook)
+  }
+
+  millis () {
+    return performance.now()
+  }
+
+  frameRate (fps: number) {
+    this._targetFrameRate = fps
+  }
+
+  _setProperty (name: string, value: number) {
+    (this as any)[name] = value
+  }
+
+  noLoop () {
+    this.looping = false
+  }
+
+  isLooping () {
+    return this.looping
+  }
+
+  redraw () {
+    this.frameCount++
+    FakeP5.run('pre', this)
+    this.draw()
+    FakeP5.run('post', this)
+  }
+}
+
+const scratchContext = {
+  drawImage () {},
+  getImageData: (_x: number, _y: number, width: number, height: number) =>
+    ({ width, height, data: new Uint8ClampedArray(width * height * 4) })
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  FakeP5.hooks = {}
+})
+
+describe('frame capture', () => {
+  it('advances millis() by exactly one frame time per frame', () => {
+    vi.useFakeTimers()
+    const events: any[] = []
+    vi.stubGlobal('window', globalThis)
+    vi.stubGlobal('p5', FakeP5)
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => scratchContext }) })
+    vi.stubGlobal('playgroundPreview', {
+      post: (kind: string, payload: any) => { if (kind === 'event') events.push(payload) },
+      on () {}
+    })
+
+    // In the order the playground puts them in the page
+    new Function(recorderScript({ frames: 5, fps: 25 }))()
+    new Function(previewControlScript({ frameRate: null, seekFrame: null, capturing: true }))()
+
+    const times: number[] = []
+    const deltas: number[] = []
+    const sketch = new FakeP5(p => {
+      p.draw = () => {
+        times.push((p as any).millis())
+        deltas.push(p.deltaTime)
+      }
+    })
+    sketch.redraw()
+    while (!events.some(e => e.event === 'record-done')) vi.advanceTimersToNextTimer()
+
+    expect(times).toEqual([0, 40, 80, 120, 160])
+    expect(deltas).toEqual([40, 40, 40, 40, 40])
+    expect(events.filter(e => e.event === 'record-frame')).toHaveLength(5)
+  })
+})
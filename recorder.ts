@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { createGif, encodeGifFrame, quantizeFrame } from './gif'
+import { createZip, ZipEntry } from './zip'
+
+/**
+ * WebM records the canvas in real time; GIF and PNG step draw() frame by
+ * frame, so the result doesn't depend on how fast the preview runs.
+ */
+export type RecordFormat = 'webm' | 'gif' | 'png'
+
+export interface RecordOptions {
+  format: RecordFormat
+  frames: number // Frames to capture for GIF and PNG
+  fps: number
+}
+
+export const DEFAULT_RECORD_OPTIONS: RecordOptions = {
+  format: 'webm',
+  frames: 120,
+  fps: 30
+}
+
+/** Most frames a GIF or PNG recording can have. */
+export const MAX_RECORD_FRAMES = 1200
+
+/** GIF frames are scaled down to at most this many pixels. */
+export const MAX_GIF_PIXELS = 640 * 480
+
+export const RECORD_FORMAT_LABELS: Record<RecordFormat, string> = {
+  webm: 'WebM video (real time)',
+  gif: 'Animated GIF (frame by frame)',
+  png: 'PNG sequence in a ZIP (frame by frame)'
+}
+
+/**
+ * Runs in the sketch iframe after p5 is loaded. Handles the 'record-start'
+ * and 'record-stop' commands by recording the canvas with MediaRecorder, and
+ * posts the video back in a 'recording' event.
+ *
+ * With `capture`, the sketch is instead driven frame by frame from its first
+ * frame: millis() and deltaTime follow the frame rate rather than the clock,
+ * and each frame is posted as ImageData in a 'record-frame' event, followed
+ * by 'record-done'. Frames larger than `maxPixels` are scaled down.
+ */
+export function recorderScript (capture: { frames: number; fps: number; maxPixels?: number } | null) {
+  return `(() => {
+  const preview = window.playgroundPreview;
+  const sketchCanvas = () =>
+    window.theSketchInstance?.canvas ?? document.querySelector('canvas');
+
+  let recorder = null;
+  preview.on('record-start', (data) => {
+    if (recorder) return;
+    const canvas = sketchCanvas();
+    if (!canvas || !canvas.captureStream || typeof MediaRecorder === 'undefined') {
+      preview.post('event', { event: 'record-error', message: 'This sketch has no canvas that can be recorded.' });
+      return;
+    }
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+      .find((type) => MediaRecorder.isTypeSupported(type));
+    const chunks = [];
+    recorder = new MediaRecorder(canvas.captureStream(data.fps), mimeType ? { mimeType } : {});
+    recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+    recorder.onstop = () => {
+      recorder = null;
+      preview.post('event', { event: 'recording', blob: new Blob(chunks, { type: 'video/webm' }) });
+    };
+    recorder.start(1000);
+  });
+  preview.on('record-stop', () => {
+    if (recorder) recorder.stop();
+  });
+
+  const capture = ${JSON.stringify(capture)};
+  if (!capture || typeof p5 !== 'function') return;
+  const frameTime = 1000 / capture.fps;
+  let frame = 0;
+  const scratch = document.createElement('canvas');
+  const scratchContext = scratch.getContext('2d', { willReadFrequently: true });
+
+  p5.prototype.registerMethod('pre', function () {
+    const now = frame * frameTime;
+    this.millis = () => now;
+    if (this._isGlobal) Object.defineProperty(window, 'millis', { value: this.millis, configurable: true, writable: true });
+    this._setProperty('deltaTime', frameTime);
+  });
+  p5.prototype.registerMethod('post', function () {
+    if (frame >= capture.frames) return;
+    if (frame === 0) this.noLoop(); // Frames are stepped from here on
+    const scale = Math.min(1, Math.sqrt((capture.maxPixels || Infinity) / (this.width * this.height)));
+    scratch.width = Math.max(1, Math.round(this.width * scale));
+    scratch.height = Math.max(1, Math.round(this.height * scale));
+    scratchContext.drawImage(this.canvas, 0, 0, scratch.width, scratch.height);
+    const image = scratchContext.getImageData(0, 0, scratch.width, scratch.height);
+    frame++;
+    preview.post('event', { event: 'record-frame', frame, image });
+    if (frame < capture.frames) {
+      setTimeout(() => this.redraw());
+    } else {
+      preview.post('event', { event: 'record-done' });
+    }
+  });
+})();`
+}
+
+/**
+ * Collects stepped frames, encoding each as it arrives so only compressed
+ * frames are kept.
+ */
+export interface FrameCapture {
+  options: RecordOptions
+  gifSize: { width: number; height: number } | null // Of the first frame
+  gifFrames: Uint8Array[]
+  pngFrames: Promise<Blob>[]
+}
+
+export function startFrameCapture (options: RecordOptions): FrameCapture {
+  return { options, gifSize: null, gifFrames: [], pngFrames: [] }
+}
+
+/** What recorderScript() needs to capture frames for `options`. */
+export function captureSettings (options: RecordOptions) {
+  const maxPixels = options.format === 'gif' ? MAX_GIF_PIXELS : undefined
+  return { frames: options.frames, fps: options.fps, maxPixels }
+}
+
+function toPng (image: ImageData): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  canvas.getContext('2d')!.putImageData(image, 0, 0)
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+  })
+}
+
+export function addCapturedFrame (capture: FrameCapture, image: ImageData) {
+  if (capture.options.format === 'gif') {
+    if (!capture.gifSize) capture.gifSize = { width: image.width, height: image.height }
+    capture.gifFrames.push(encodeGifFrame(quantizeFrame(image), 1000 / capture.options.fps))
+  } else {
+    capture.pngFrames.push(toPng(image))
+  }
+}
+
+/** The GIF, or a ZIP of numbered PNG frames. */
+export async function finishFrameCapture (capture: FrameCapture): Promise<Blob> {
+  if (capture.options.format === 'gif') {
+    if (!capture.gifSize) throw new Error('No frames were captured')
+    return createGif(capture.gifSize.width, capture.gifSize.height, capture.gifFrames)
+  }
+  const pngs = await Promise.all(capture.pngFrames)
+  if (!pngs.length) throw new Error('No frames were captured')
+  const entries: ZipEntry[] = []
+  for (const [i, png] of pngs.entries()) {
+    entries.push({
+      path: `frame-${String(i + 1).padStart(4, '0')}.png`,
+      data: new Uint8Array(await png.arrayBuffer())
+    })
+  }
+  return createZip(entries)
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+/** Seeds are shown in the toolbar, so they are kept short. */
+export const MAX_SEED = 999999
+
+export function newSeed () {
+  return Math.floor(Math.random() * MAX_SEED) + 1
+}
+
+/**
+ * Runs in the sketch iframe after p5 is loaded and before the sketch.
+ * Math.random becomes a generator seeded with `seed`, and p5's random() and
+ * noise() are seeded as the p5 instance is created, so a sketch draws the
+ * same thing on every run with the same seed. Sketches that call randomSeed()
+ * or noiseSeed() themselves keep their own seeds.
+ */
+export function seedScript (seed: number) {
+  return `(() => {
+  const seed = ${Math.floor(seed)};
+  // mulberry32
+  let state = seed >>> 0;
+  Math.random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  if (typeof p5 !== 'function') return;
+  p5.prototype.registerMethod('init', function () {
+    this.randomSeed(seed);
+    this.noiseSeed(seed);
+  });
+})();`
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { deleteSessionAssets } from './assets'
+import type { LibrarySelection } from './libraries'
+import type { Message } from './playground'
+import type { ProjectFile } from './project'
+import { CodeVersion, versionsFromMessages } from './versions'
+import {
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+  STORE_SESSIONS
+} from './storage'
+
+/** localStorage key remembering which session was open last. */
+const ACTIVE_SESSION_KEY = 'p5js-playground.activeSession'
+
+/** Everything needed to restore a Playground conversation. */
+export interface Session {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  messages: Message[]
+  versions: CodeVersion[]
+  code: string
+  files?: ProjectFile[] // Other project files; missing in sessions saved before projects
+  libraries?: LibrarySelection // Libraries the editor code runs with
+  activeVersionId: string | null
+}
+
+/** Lightweight view of a session used by the sessions list. */
+export type SessionSummary = Pick<Session, 'id' | 'name' | 'createdAt' | 'updatedAt'>
+
+export function createSession (id: string, name: string, code = ''): Session {
+  const now = Date.now()
+  return {
+    id,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    versions: [],
+    code,
+    activeVersionId: null
+  }
+}
+
+/** Shape of sessions saved before versions were tracked as a tree. */
+type LegacySession = Omit<Session, 'versions' | 'activeVersionId'> & {
+  versions?: CodeVersion[]
+  activeVersionId?: string | null
+  activeCodeVersionId?: string | null
+}
+
+function upgradeSession (stored: LegacySession): Session {
+  if (stored.versions) return stored as Session
+  const { activeCodeVersionId, ...rest } = stored
+  const { versions, messages } = versionsFromMessages(stored.messages)
+  return {
+    ...rest,
+    messages,
+    versions,
+    activeVersionId: activeCodeVersionId ?? null
+  }
+}
+
+export async function loadSession (id: string): Promise<Session | undefined> {
+  const stored = await getRecord<LegacySession>(STORE_SESSIONS, id)
+  return stored && upgradeSession(stored)
+}
+
+export async function saveSession (session: Session) {
+  await putRecord(STORE_SESSIONS, session)
+}
+
+export async function deleteSession (id: string) {
+  await deleteRecord(STORE_SESSIONS, id)
+  await deleteSessionAssets(id)
+}
+
+/** List all sessions, most recently updated first. */
+export async function listSessions (): Promise<SessionSummary[]> {
+  const sessions = await getAllRecords<Session>(STORE_SESSIONS)
+  return sessions
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export function getActiveSessionId (): string | null {
+  return localStorage.getItem(ACTIVE_SESSION_KEY)
+}
+
+export function setActiveSessionId (id: string) {
+  localStorage.setItem(ACTIVE_SESSION_KEY, id)
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { GenerationOptions } from './provider'
+import { DEFAULT_RECORD_OPTIONS, RecordOptions } from './recorder'
+
+const SETTINGS_KEY = 'p5js-playground.settings'
+
+/** A named set of system instructions. */
+export interface SystemPreset {
+  id: string
+  name: string
+  instructions: string
+  builtIn?: boolean // Built-in presets can't be changed or deleted
+}
+
+/** Model and generation settings, persisted in localStorage. */
+export interface Settings {
+  generation: GenerationOptions
+  presetId: string
+  customPresets: SystemPreset[]
+  livePreview: boolean // Show code while it streams and run it once complete
+  record: RecordOptions
+}
+
+export const DEFAULT_PRESET_ID = 'default'
+
+/** Model names offered in the settings panel; any other name can be typed in. */
+export const SUGGESTED_MODELS = [
+  'gemini-2.0-flash',
+  'gemini-2.5-flash',
+  'gemini-2.5-pro'
+]
+
+const GAMES_FOCUS = `
+
+## FOCUS: GAMES
+The user is making games. Prefer a clear game loop with explicit states (title, playing, game over), score and lives display, keyboard and touch controls, increasing difficulty, and a restart key. Keep collision detection simple and robust.`
+
+const GENERATIVE_ART_FOCUS = `
+
+## FOCUS: GENERATIVE ART
+The user is making generative art. Favour noise, randomness with a seed, layering, color palettes with harmony, and slow evolving motion. Interaction is optional; keep the canvas full screen and the composition balanced.`
+
+const MINIMAL_INSTRUCTIONS = `You're an expert creative coding agent specializing in p5.js.
+
+Write the shortest complete p5.js sketch that does what the user asks:
+- Use p5.js instance mode (new p5(sketch)) with standard-js formatting
+- No import statements or third-party libraries; only p5.js and the libraries named in the request
+- Use a canvas of windowWidth x windowHeight unless asked otherwise
+- No comments or documentation unless essential
+
+Reply with one sentence followed by a single javascript code block.`
+
+/** Built-in presets, derived from the app's default system instructions. */
+export function builtInPresets (defaultInstructions: string): SystemPreset[] {
+  return [
+    { id: DEFAULT_PRESET_ID, name: 'Default', instructions: defaultInstructions, builtIn: true },
+    { id: 'games', name: 'Games', instructions: defaultInstructions + GAMES_FOCUS, builtIn: true },
+    { id: 'generative-art', name: 'Generative art', instructions: defaultInstructions + GENERATIVE_ART_FOCUS, builtIn: true },
+    { id: 'minimal', name: 'Minimal code, no docs', instructions: MINIMAL_INSTRUCTIONS, builtIn: true }
+  ]
+}
+
+export function defaultSettings (): Settings {
+  return {
+    generation: { thinking: true },
+    presetId: DEFAULT_PRESET_ID,
+    customPresets: [],
+    livePreview: false,
+    record: DEFAULT_RECORD_OPTIONS
+  }
+}
+
+export function loadSettings (): Settings {
+  const settings = defaultSettings()
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}')
+    return {
+      generation: { ...settings.generation, ...stored.generation },
+      presetId: stored.presetId ?? settings.presetId,
+      customPresets: stored.customPresets ?? settings.customPresets,
+      livePreview: stored.livePreview ?? settings.livePreview,
+      record: { ...settings.record, ...stored.record }
+    }
+  } catch (e) {
+    console.error('Unable to load settings:', e)
+    return settings
+  }
+}
+
+export function saveSettings (settings: Settings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug'
+
+/** One line of sketch console output. Line and column are 1-based, in the sketch code. */
+export interface ConsoleEntry {
+  id: number
+  level: ConsoleLevel
+  message: string
+  stack?: string
+  line?: number
+  column?: number
+  count: number // Identical consecutive entries are collapsed
+  time: number
+}
+
+/** Oldest entries are dropped beyond this, e.g. for logging from draw(). */
+export const MAX_CONSOLE_ENTRIES = 500
+
+/**
+ * Runs inside the sketch iframe right after the preview protocol script,
+ * before anything else. Forwards console calls
+ * to the host in batches, and reports uncaught errors and unhandled promise
+ * rejections as runtime errors.
+ */
+export const CONSOLE_HOOK_SCRIPT = `(function () {
+  var queue = [];
+  var timer = null;
+  var MAX_LENGTH = 2000;
+
+  function format (value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return String(value);
+    try {
+      var json = JSON.stringify(value);
+      if (json !== undefined) return json;
+    } catch (e) {}
+    return String(value);
+  }
+
+  function flush () {
+    timer = null;
+    window.playgroundPreview.post('log', { entries: queue });
+    queue = [];
+  }
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var message = Array.prototype.map.call(arguments, format).join(' ');
+      if (message.length > MAX_LENGTH) message = message.slice(0, MAX_LENGTH) + '…';
+      queue.push({ level: level, message: message, stack: new Error().stack, time: Date.now() });
+      if (!timer) timer = setTimeout(flush, 100);
+      return original.apply(console, arguments);
+    };
+  });
+
+  function reportError (message, stack, line, column) {
+    window.playgroundPreview.post('error', { message: message, stack: stack, line: line, column: column });
+  }
+
+  // Errors thrown later on, e.g. inside setup() or draw()
+  window.addEventListener('error', function (event) {
+    reportError(event.error ? String(event.error) : event.message,
+      event.error && event.error.stack, event.lineno, event.colno);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason;
+    reportError('Unhandled promise rejection: ' + format(reason), reason && reason.stack);
+  });
+})();`
+
+/** Where the sketch code sits in the generated iframe document. */
+export interface CodeRange {
+  startLine: number // Document line of the first code line
+  lineCount: number
+}
+
+/** Stack frame locations in the iframe document (Chrome and Firefox formats). */
+const FRAME_PATTERN = /about:srcdoc:(\d+):(\d+)/g
+
+/**
+ * Translate a document location (from a stack trace, or an explicit line and
+ * column) to a location in the sketch code. Frames outside the code, e.g. in
+ * the harness or in p5 itself, are skipped.
+ */
+export function sketchLocation (
+  range: CodeRange,
+  stack?: string,
+  line?: number,
+  column?: number
+): { line: number; column: number } | null {
+  const candidates: Array<[number, number]> = []
+  if (line) candidates.push([line, column ?? 1])
+  for (const match of (stack ?? '').matchAll(FRAME_PATTERN)) {
+    candidates.push([Number(match[1]), Number(match[2])])
+  }
+  for (const [docLine, docColumn] of candidates) {
+    const codeLine = docLine - range.startLine + 1
+    if (codeLine >= 1 && codeLine <= range.lineCount) {
+      return { line: codeLine, column: docColumn }
+    }
+  }
+  return null
+}
+
+/**
+ * Rewrite the stack frames that point into the sketch code to `sketch.js`
+ * line numbers, so the trace makes sense without the harness around it.
+ */
+export function translateStack (range: CodeRange, stack: string) {
+  return stack.replace(FRAME_PATTERN, (frame, line, column) => {
+    const location = sketchLocation(range, undefined, Number(line), Number(column))
+    return location ? `sketch.js:${location.line}:${location.column}` : frame
+  })
+}
+
+/** Append an entry, collapsing repeats and keeping at most MAX_CONSOLE_ENTRIES. */
+export function appendEntry (entries: ConsoleEntry[], entry: ConsoleEntry) {
+  const last = entries[entries.length - 1]
+  if (
+    last &&
+    last.level === entry.level &&
+    last.message === entry.message &&
+    last.line === entry.line
+  ) {
+    return [...entries.slice(0, -1), { ...last, count: last.count + 1, time: entry.time }]
+  }
+  return [...entries, entry].slice(-MAX_CONSOLE_ENTRIES)
+}
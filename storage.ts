@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+const DB_NAME = 'p5js-playground'
+const DB_VERSION = 2
+
+/** Object stores created by the playground database. */
+export const STORE_SESSIONS = 'sessions'
+export const STORE_ASSETS = 'assets' // Indexed by sessionId
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/** Wrap an IDBRequest in a promise. */
+function requestToPromise<T> (request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Open (and upgrade if needed) the playground database. Cached per page. */
+export function openDatabase (): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_SESSIONS)) {
+        db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(STORE_ASSETS)) {
+        const assets = db.createObjectStore(STORE_ASSETS, { keyPath: 'id' })
+        assets.createIndex('sessionId', 'sessionId')
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+async function withStore<T> (
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  const tx = db.transaction(storeName, mode)
+  return requestToPromise(fn(tx.objectStore(storeName)))
+}
+
+export function getRecord<T> (storeName: string, key: string): Promise<T | undefined> {
+  return withStore<T | undefined>(storeName, 'readonly', store => store.get(key))
+}
+
+export function getAllRecords<T> (storeName: string): Promise<T[]> {
+  return withStore<T[]>(storeName, 'readonly', store => store.getAll())
+}
+
+export function getRecordsByIndex<T> (
+  storeName: string,
+  indexName: string,
+  key: IDBValidKey
+): Promise<T[]> {
+  return withStore<T[]>(storeName, 'readonly', store =>
+    store.index(indexName).getAll(key)
+  )
+}
+
+export async function putRecord<T> (storeName: string, record: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(record))
+}
+
+export async function deleteRecord (storeName: string, key: string): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.delete(key))
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import { hasErrors, validateSketch } from './validate'
+
+const misuse = `new p5((p) => {
+  p.setup = () => {
+    createCanvas(100, 100)
+    p.splineVertex(1, 2)
+  }
+})`
+
+const findings = (source: string, p5?: 1 | 2) =>
+  validateSketch(source, p5 ? { p5, addons: [] } : undefined).map(d => [d.kind, d.severity, d.line])
+
+describe('validateSketch', () => {
+  it('accepts a plain instance mode sketch', () => {
+    expect(validateSketch('new p5((p) => { p.setup = () => p.createCanvas(100, 100) })')).toEqual([])
+  })
+
+  it('reports syntax errors, imports and a missing instance', () => {
+    expect(findings('import x from "y"\nfunction foo () {}')).toEqual([
+      ['import', 'error', 1],
+      ['missing-instance', 'error', 1]
+    ])
+    expect(findings('new p5((p) => {')[0]).toEqual(['syntax', 'error', 1])
+  })
+
+  it('blocks bare p5 calls for the p5.js release the API data describes', () => {
+    const diagnostics = validateSketch(misuse, { p5: 1, addons: [] })
+    expect(diagnostics.map(d => [d.kind, d.severity, d.line])).toEqual([
+      ['unknown-member', 'warning', 4],
+      ['global-call', 'error', 3]
+    ])
+    expect(hasErrors(diagnostics)).toBe(true)
+    expect(findings(misuse)).toEqual(findings(misuse, 1))
+  })
+
+  it('only warns about API findings for other releases', () => {
+    const diagnostics = validateSketch(misuse, { p5: 2, addons: [] })
+    expect(diagnostics.map(d => [d.kind, d.severity])).toEqual([
+      ['unknown-member', 'warning'],
+      ['global-call', 'warning']
+    ])
+    expect(diagnostics[0].message).toContain('Checked against p5.js 1.11.3')
+    expect(hasErrors(diagnostics)).toBe(false)
+  })
+})
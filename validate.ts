@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { SyntaxNode, Tree } from '@lezer/common'
+import { parser } from '@lezer/javascript'
+import { LibrarySelection, selectedLibraries } from './libraries'
+import { analyzeSketch, P5_API, SketchIssue } from './p5-api'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export type DiagnosticKind =
+  | 'syntax'
+  | 'import'
+  | 'external-url'
+  | 'missing-instance'
+  | 'global-mode'
+  | 'mixed-mode'
+  | 'global-call'
+  | 'unknown-member'
+
+/** A problem found in a sketch before running it. Line and column are 1-based. */
+export interface SketchDiagnostic {
+  kind: DiagnosticKind
+  severity: DiagnosticSeverity
+  message: string
+  line: number
+  column: number
+}
+
+/** Functions that make a sketch run in global mode when declared at top level. */
+const GLOBAL_MODE_FUNCTIONS = new Set(['preload', 'setup', 'draw'])
+
+/** Matches absolute and protocol-relative URLs inside string literals. */
+const URL_PATTERN = /(?:https?:)?\/\/[a-z0-9-]+(?:\.[a-z0-9-]+)+/i
+
+/** Report at most this many syntax errors; later ones are usually follow-ups. */
+const MAX_SYNTAX_ERRORS = 3
+
+function position (source: string, offset: number) {
+  const before = source.slice(0, offset)
+  const line = before.split('\n').length
+  return { line, column: offset - before.lastIndexOf('\n') }
+}
+
+function syntaxMessage (source: string, node: SyntaxNode) {
+  const token = source.slice(node.from).match(/^\s*(\w+|\S)/)
+  return token
+    ? `Syntax error: unexpected "${token[1]}".`
+    : 'Syntax error: unexpected end of code (missing a closing bracket or brace?).'
+}
+
+/** Whether a sketch is started with `new p5(...)`. */
+function hasInstance (tree: Tree, source: string) {
+  let found = false
+  tree.iterate({
+    enter: ref => {
+      if (found) return false
+      if (ref.name !== 'NewExpression') return
+      const callee = ref.node.getChild('VariableName')
+      if (callee && source.slice(callee.from, callee.to) === 'p5') found = true
+    }
+  })
+  return found
+}
+
+/** Top level `function setup () {}` style declarations. */
+function globalModeFunctions (tree: Tree, source: string) {
+  const names: SyntaxNode[] = []
+  for (let node = tree.topNode.firstChild; node; node = node.nextSibling) {
+    if (node.name !== 'FunctionDeclaration') continue
+    const name = node.getChild('VariableDefinition')
+    if (name && GLOBAL_MODE_FUNCTIONS.has(source.slice(name.from, name.to))) {
+      names.push(name)
+    }
+  }
+  return names
+}
+
+/**
+ * Severity and message of a p5 API finding. The bundled API data describes
+ * one p5.js release; for other releases the findings are only warnings.
+ */
+export function apiFinding (issue: SketchIssue, libraries?: LibrarySelection) {
+  const { release } = selectedLibraries(libraries)
+  const knownApi = release.version === P5_API.p5Version
+  // Bare p5 calls throw a ReferenceError in instance mode.
+  const severity: DiagnosticSeverity = knownApi && issue.kind === 'global-call' ? 'error' : 'warning'
+  const message = knownApi ? issue.message : `${issue.message} (Checked against p5.js ${P5_API.p5Version}.)`
+  return { severity, message }
+}
+
+/**
+ * Check a sketch before it is injected into the preview: syntax errors,
+ * `import` statements and external URLs (the system prompt disallows both),
+ * whether the sketch is started in instance mode, and p5 API misuse for the
+ * selected libraries (see apiFinding).
+ */
+export function validateSketch (source: string, libraries?: LibrarySelection): SketchDiagnostic[] {
+  const tree = parser.parse(source)
+  const diagnostics: SketchDiagnostic[] = []
+  const report = (
+    kind: DiagnosticKind,
+    severity: DiagnosticSeverity,
+    offset: number,
+    message: string
+  ) => {
+    diagnostics.push({ kind, severity, message, ...position(source, offset) })
+  }
+
+  let syntaxErrors = 0
+  let lastErrorAt = -1
+  tree.iterate({
+    enter: ref => {
+      const node = ref.node
+      if (node.type.isError) {
+        // Recovery often produces several error nodes at the same spot.
+        if (node.from !== lastErrorAt && syntaxErrors++ < MAX_SYNTAX_ERRORS) {
+          report('syntax', 'error', node.from, syntaxMessage(source, node))
+        }
+        lastErrorAt = node.from
+      } else if (node.name === 'ImportDeclaration' || node.name === 'DynamicImport') {
+        report('import', 'error', node.from, 'Import statements are not supported; use only p5.js and p5.sound.')
+      } else if (node.name === 'CallExpression') {
+        const callee = node.firstChild
+        if (callee?.name === 'VariableName' && source.slice(callee.from, callee.to) === 'require') {
+          report('import', 'error', node.from, '"require" is not available in the browser; use only p5.js and p5.sound.')
+        }
+      } else if (node.name === 'String' || node.name === 'TemplateString') {
+        const url = source.slice(node.from, node.to).match(URL_PATTERN)
+        if (url) {
+          report('external-url', 'warning', node.from, `External URL "${url[0]}"; sketches should not depend on external resources.`)
+        }
+      }
+    }
+  })
+  // Mode checks and API analysis are unreliable on code that does not parse.
+  if (syntaxErrors > 0) return diagnostics
+
+  const instance = hasInstance(tree, source)
+  const globals = globalModeFunctions(tree, source)
+  if (instance && globals.length) {
+    report('mixed-mode', 'warning', globals[0].from, 'The sketch mixes global-mode functions with "new p5(...)"; use instance mode only.')
+  } else if (globals.length) {
+    report('global-mode', 'warning', globals[0].from, 'The sketch uses global mode; instance mode ("new p5(sketch)") is expected.')
+  } else if (!instance) {
+    report('missing-instance', 'error', 0, 'The sketch never calls "new p5(...)", so nothing will run.')
+  }
+
+  for (const issue of analyzeSketch(tree, source).issues) {
+    const { severity, message } = apiFinding(issue, libraries)
+    report(issue.kind, severity, issue.from, message)
+  }
+  return diagnostics
+}
+
+export function hasErrors (diagnostics: SketchDiagnostic[]) {
+  return diagnostics.some(d => d.severity === 'error')
+}
+
+/** Request for the model to fix the problems found by validateSketch. */
+export function validationPrompt (diagnostics: SketchDiagnostic[]) {
+  const list = diagnostics
+    .map(d => `- Line ${d.line}, column ${d.column}: ${d.message}`)
+    .join('\n')
+  return `The code did not pass validation:\n${list}\nCan you fix the code?`
+}
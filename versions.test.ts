@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import { describe, expect, it } from 'vitest'
+import type { Message } from './playground'
+import { ancestry, layoutVersions, versionsFromMessages } from './versions'
+
+const messages: Message[] = [
+  { id: 'm1', role: 'user', text: 'Draw a circle' },
+  { id: 'm2', role: 'assistant', text: 'Here it is', code: 'circle(50, 50, 20)' },
+  { id: 'm3', role: 'error', text: 'Oops', code: 'ignored()' },
+  { id: 'm4', role: 'manual-snapshot', text: 'Edited', code: 'circle(50, 50, 40)' },
+  { id: 'm5', role: 'user', text: 'Make it red' },
+  { id: 'm6', role: 'assistant', text: 'Thinking...' },
+  { id: 'm7', role: 'assistant', text: 'Done', code: 'fill(255, 0, 0)\ncircle(50, 50, 40)' }
+]
+
+describe('versionsFromMessages', () => {
+  it('turns each message with code into a version of one linear history', () => {
+    const { versions } = versionsFromMessages(messages)
+    expect(versions.map(v => [v.id, v.parentId, v.author])).toEqual([
+      ['m2', null, 'assistant'],
+      ['m4', 'm2', 'manual'],
+      ['m7', 'm4', 'assistant']
+    ])
+    expect(versions.map(v => v.code)).toEqual([messages[1].code, messages[3].code, messages[6].code])
+    expect(ancestry(versions, 'm7').map(v => v.id)).toEqual(['m7', 'm4', 'm2'])
+    expect(layoutVersions(versions).every(row => row.depth === 0 && !row.isBranch)).toBe(true)
+  })
+
+  it('keeps the prompt that produced each assistant version', () => {
+    const { versions } = versionsFromMessages(messages)
+    expect(versions.map(v => v.prompt)).toEqual(['Draw a circle', undefined, 'Make it red'])
+  })
+
+  it('orders versions as the messages were', () => {
+    const { versions } = versionsFromMessages(messages)
+    expect(versions[0].createdAt).toBeLessThan(versions[1].createdAt)
+    expect(versions[1].createdAt).toBeLessThan(versions[2].createdAt)
+  })
+
+  it('links the messages to their versions without changing the rest', () => {
+    const { messages: migrated } = versionsFromMessages(messages)
+    expect(migrated.map(m => m.versionId)).toEqual([undefined, 'm2', undefined, 'm4', undefined, undefined, 'm7'])
+    expect(migrated[2]).toBe(messages[2])
+    expect(messages[1].versionId).toBeUndefined()
+  })
+
+  it('returns no versions for a chat without code', () => {
+    expect(versionsFromMessages([messages[0]]).versions).toEqual([])
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+import type { LibrarySelection } from './libraries'
+import type { Message } from './playground'
+import type { ProjectFile } from './project'
+
+/** Who produced a code version. */
+export type VersionAuthor = 'assistant' | 'manual' | 'import'
+
+/** A node in the version tree. */
+export interface CodeVersion {
+  id: string
+  parentId: string | null // Version this one was derived from
+  code: string
+  files?: ProjectFile[] // The project's other files, besides the main sketch
+  author: VersionAuthor
+  prompt?: string // Prompt that produced this version (assistant versions)
+  messageId?: string // Chat message that carries this version
+  seed?: number // Random seed it runs with, so it looks the same when loaded
+  libraries?: LibrarySelection // Missing in older versions, which ran with DEFAULT_LIBRARIES
+  label?: string
+  starred?: boolean
+  createdAt: number
+}
+
+/** A version positioned for rendering in the branch view. */
+export interface VersionRow {
+  version: CodeVersion
+  depth: number
+  isBranch: boolean // True when this node starts a new branch off its parent
+}
+
+export function childrenOf (versions: CodeVersion[], id: string | null) {
+  return versions
+    .filter(v => v.parentId === id)
+    .sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/** Walk from a version up to its root, nearest first. */
+export function ancestry (versions: CodeVersion[], id: string | null): CodeVersion[] {
+  const byId = new Map(versions.map(v => [v.id, v]))
+  const chain: CodeVersion[] = []
+  let current = id ? byId.get(id) : undefined
+  while (current && !chain.includes(current)) {
+    chain.push(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return chain
+}
+
+/**
+ * Flatten the version tree depth-first. The first child continues its
+ * parent's line; later children open a new, indented branch.
+ */
+export function layoutVersions (versions: CodeVersion[]): VersionRow[] {
+  const ids = new Set(versions.map(v => v.id))
+  const rows: VersionRow[] = []
+
+  const visit = (version: CodeVersion, depth: number, isBranch: boolean) => {
+    rows.push({ version, depth, isBranch })
+    childrenOf(versions, version.id).forEach((child, i) => {
+      visit(child, i === 0 ? depth : depth + 1, i > 0)
+    })
+  }
+
+  // Orphans (parent missing) are treated as roots.
+  versions
+    .filter(v => v.parentId === null || !ids.has(v.parentId))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach((root, i) => visit(root, 0, i > 0))
+  return rows
+}
+
+/** Short human readable title for a version. */
+export function versionTitle (version: CodeVersion) {
+  if (version.label) return version.label
+  if (version.prompt) {
+    return version.prompt.length > 60
+      ? version.prompt.substring(0, 60) + '...'
+      : version.prompt
+  }
+  switch (version.author) {
+    case 'manual':
+      return 'Manual edit'
+    case 'import':
+      return 'Imported code'
+    default:
+      return 'Generated code'
+  }
+}
+
+/**
+ * Build a linear version history from messages saved before versions were
+ * tracked. Version ids reuse the message ids, so an old active message id
+ * still points at the right version.
+ */
+export function versionsFromMessages (messages: Message[]) {
+  const versions: CodeVersion[] = []
+  let parentId: string | null = null
+  let prompt: string | undefined
+  const now = Date.now()
+
+  const migrated = messages.map((msg, i) => {
+    if (msg.role === 'user') prompt = msg.text
+    if (!msg.code || (msg.role !== 'assistant' && msg.role !== 'manual-snapshot')) {
+      return msg
+    }
+    versions.push({
+      id: msg.id,
+      parentId,
+      code: msg.code,
+      author: msg.role === 'assistant' ? 'assistant' : 'manual',
+      prompt: msg.role === 'assistant' ? prompt : undefined,
+      messageId: msg.id,
+      createdAt: now + i
+    })
+    parentId = msg.id
+    return { ...msg, versionId: msg.id }
+  })
+  return { versions, messages: migrated }
+}
@@ -1,11 +1,41 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+import { LIBRARY_FILES, LibraryFile } from './libraries';
+
+/** Serve the p5.js builds from node_modules and copy them into the build. */
+function p5Libraries(): Plugin {
+  const source = (file: LibraryFile) =>
+    path.resolve(__dirname, 'node_modules', file.source);
+  return {
+    name: 'p5-libraries',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split('?')[0];
+        const file = LIBRARY_FILES.find(f => url === server.config.base + f.path);
+        if (!file) return next();
+        res.setHeader('Content-Type', 'text/javascript');
+        fs.createReadStream(source(file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of LIBRARY_FILES) {
+        this.emitFile({ type: 'asset', fileName: file.path, source: fs.readFileSync(source(file)) });
+      }
+    }
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [p5Libraries()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.API_KEY),
+        'process.env.PROVIDER': JSON.stringify(env.PROVIDER),
+        'process.env.MODEL': JSON.stringify(env.MODEL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY)
       },
       resolve: {
         alias: {
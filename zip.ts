@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+/* tslint:disable */
+
+/** A file in a ZIP archive. */
+export interface ZipEntry {
+  path: string // Forward slashes, no leading slash
+  data: Uint8Array
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32 (data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** Date and time in MS-DOS format, as used by ZIP headers. */
+function dosDateTime (date: Date) {
+  const time =
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+  const day =
+    ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+/**
+ * Build a ZIP archive. Files are stored uncompressed, which keeps this small
+ * and is fine for sketches; names are UTF-8.
+ */
+export function createZip (entries: ZipEntry[], date = new Date()): Blob {
+  const encoder = new TextEncoder()
+  const { time, day } = dosDateTime(date)
+  const parts: Uint8Array[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true) // Local file header signature
+    local.setUint16(4, 20, true) // Version needed
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // Stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, day, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+    parts.push(new Uint8Array(local.buffer), name, entry.data)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true) // Central directory signature
+    central.setUint16(4, 20, true) // Version made by
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, day, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true) // Offset of the local header
+    directory.push(new Uint8Array(central.buffer), name)
+
+    offset += 30 + name.length + size
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true) // End of central directory signature
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], {
+    type: 'application/zip'
+  })
+}
+
+async function inflate (data: Uint8Array) {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Read the files of a ZIP archive; folders are skipped. Supports stored and
+ * deflated entries, which covers archives made by common tools.
+ */
+export async function readZip (blob: Blob): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+
+  // The end of central directory record is last, unless a comment follows it
+  let end = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP file')
+
+  const decoder = new TextDecoder()
+  const count = view.getUint16(end + 10, true)
+  let pos = view.getUint32(end + 16, true)
+  const entries: ZipEntry[] = []
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) {
+      throw new Error('Damaged ZIP file')
+    }
+    const method = view.getUint16(pos + 10, true)
+    const compressedSize = view.getUint32(pos + 20, true)
+    const nameLength = view.getUint16(pos + 28, true)
+    const extraLength = view.getUint16(pos + 30, true)
+    const commentLength = view.getUint16(pos + 32, true)
+    const offset = view.getUint32(pos + 42, true)
+    const path = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength))
+    pos += 46 + nameLength + extraLength + commentLength
+    if (path.endsWith('/')) continue
+
+    // Sizes come from the directory: local headers may defer them
+    const start =
+      offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true)
+    const data = bytes.slice(start, start + compressedSize)
+    if (method === 0) {
+      entries.push({ path, data })
+    } else if (method === 8) {
+      entries.push({ path, data: await inflate(data) })
+    } else {
+      throw new Error(`Unsupported compression method for ${path}`)
+    }
+  }
+  return entries
+}